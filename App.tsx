@@ -3,21 +3,50 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useEffect } from 'react';
-import { GeneratedImage, ComplexityLevel, VisualStyle, Language, SearchResultItem, UiLanguage } from './types';
+import React, { useState, useEffect, useRef } from 'react';
+import { GeneratedImage, ComplexityLevel, VisualStyle, Language, UiLanguage, ResearchResult, ImageVariant, LegibilityFix, FactCheck, SourceDocument, ImageFormat, AspectRatio, ImageResolution } from './types';
 import { 
   researchTopicForPrompt, 
-  generateInfographicImage, 
+  generateInfographicVariants, 
   editInfographicImage,
-  setApiKeys
+  editInfographicRegion,
+  fixInfographicLegibility,
+  composeImagePrompt,
+  verifyFacts,
+  LEGIBILITY_FIXES
 } from './services/geminiService';
-import { translations } from './translations';
+import { setApiKeys, setProviderSettings, getKeyStats, subscribeKeyStats, isMockMode, DEFAULT_PROVIDER_SETTINGS, ProviderSettings, KeyStats } from './services/providers';
+import { loadImages, saveImage, deleteImages, clearLibrary } from './services/storageService';
+import { isAbortError } from './utils/abort';
+import { ASPECT_RATIOS, IMAGE_RESOLUTIONS, FORMAT_PRESETS, DEFAULT_IMAGE_FORMAT, FormatPreset, describeFormat, orientationOf, isPaidResolution } from './utils/imageFormat';
+import { translations, languageNames, getLevelLabel } from './translations';
 import Infographic from './components/Infographic';
 import ArticleSection from './components/ArticleSection';
 import Loading from './components/Loading';
 import IntroScreen from './components/IntroScreen';
 import SearchResults from './components/SearchResults';
-import { Search, AlertCircle, History, GraduationCap, Palette, Microscope, Atom, Compass, Globe, Sun, Moon, Key, ExternalLink, Sparkles, X, Code2, Save, RotateCw, Languages } from 'lucide-react';
+import Library from './components/Library';
+import VersionTree from './components/VersionTree';
+import CompareView from './components/CompareView';
+import ProviderSettingsModal from './components/ProviderSettingsModal';
+import PromptReview from './components/PromptReview';
+import VariantPicker from './components/VariantPicker';
+import SourceDocumentsPanel from './components/SourceDocumentsPanel';
+import ReferenceImagePicker from './components/ReferenceImagePicker';
+import { Search, AlertCircle, History, GraduationCap, Palette, Microscope, Atom, Compass, Globe, Sun, Moon, Key, ExternalLink, Sparkles, X, Code2, Save, RotateCw, Languages, Trash2, Library as LibraryIcon, Cpu, Files, Proportions } from 'lucide-react';
+
+// Research kept from a cancelled generation, together with the settings it was made for
+interface PendingResearch {
+  topic: string;
+  level: ComplexityLevel;
+  style: VisualStyle;
+  language: Language;
+  documentIds: string; // Source documents the research was grounded on, if any
+  references: string[]; // Reference images, passed to research and to generation
+  result: ResearchResult;
+}
+
+const MAX_VARIANTS = 4;
 
 const App: React.FC = () => {
   const [showIntro, setShowIntro] = useState(true);
@@ -27,6 +56,7 @@ const App: React.FC = () => {
   const [complexityLevel, setComplexityLevel] = useState<ComplexityLevel>('High School');
   const [visualStyle, setVisualStyle] = useState<VisualStyle>('Default');
   const [language, setLanguage] = useState<Language>('Portuguese');
+  const [imageFormat, setImageFormat] = useState<ImageFormat>(DEFAULT_IMAGE_FORMAT);
   
   // UI Settings
   const [uiLanguage, setUiLanguage] = useState<UiLanguage>('pt');
@@ -35,15 +65,40 @@ const App: React.FC = () => {
   const [loadingMessage, setLoadingMessage] = useState('');
   const [loadingStep, setLoadingStep] = useState<number>(0);
   const [loadingFacts, setLoadingFacts] = useState<string[]>([]);
+  const [loadingFactChecks, setLoadingFactChecks] = useState<FactCheck[]>([]);
   const [error, setError] = useState<string | null>(null);
+
+  // Controller of the generation or edit currently in flight
+  const activeRequest = useRef<AbortController | null>(null);
+  const [pendingResearch, setPendingResearch] = useState<PendingResearch | null>(null);
+  // Article text as it streams in, shown below the loader until the image is ready
+  const [streamingArticle, setStreamingArticle] = useState<string | null>(null);
+  // Optional pause between research and image generation to edit the facts and prompt
+  const [reviewPrompt, setReviewPrompt] = useState(false);
+  const [factCheck, setFactCheck] = useState(false);
+  const [sourceDocuments, setSourceDocuments] = useState<SourceDocument[]>([]);
+  const [showSources, setShowSources] = useState(false);
+  const [referenceImages, setReferenceImages] = useState<string[]>([]);
+  const [reviewing, setReviewing] = useState<PendingResearch | null>(null);
+  // Several candidates rendered from one research run, waiting for the user to pick
+  const [variantCount, setVariantCount] = useState(1);
+  const [candidates, setCandidates] = useState<{ research: PendingResearch; variants: ImageVariant[] } | null>(null);
+  const [autoFixLegibility, setAutoFixLegibility] = useState(false);
   
   const [imageHistory, setImageHistory] = useState<GeneratedImage[]>([]);
-  const [currentSearchResults, setCurrentSearchResults] = useState<SearchResultItem[]>([]);
   const [isDarkMode, setIsDarkMode] = useState(true);
 
   // Custom API Key Management
   const [showKeyModal, setShowKeyModal] = useState(false);
   const [apiKeysInput, setApiKeysInput] = useState('');
+  const [keyStats, setKeyStats] = useState<KeyStats[]>(getKeyStats);
+
+  // Per-step AI provider selection
+  const [showProviderModal, setShowProviderModal] = useState(false);
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [comparePair, setComparePair] = useState<[string, string] | null>(null);
 
   // Short alias for translations
   const t = translations[uiLanguage];
@@ -56,6 +111,9 @@ const App: React.FC = () => {
     }
   }, [isDarkMode]);
 
+  // Keep per-key usage stats in sync with the key pool
+  useEffect(() => subscribeKeyStats(setKeyStats), []);
+
   // Load API keys from local storage on mount
   useEffect(() => {
     const savedKeys = localStorage.getItem('infogenius_api_keys');
@@ -69,6 +127,42 @@ const App: React.FC = () => {
     if (savedUiLang && (savedUiLang === 'pt' || savedUiLang === 'en' || savedUiLang === 'es')) {
         setUiLanguage(savedUiLang as UiLanguage);
     }
+    setReviewPrompt(localStorage.getItem('infogenius_review_prompt') === 'true');
+    setFactCheck(localStorage.getItem('infogenius_fact_check') === 'true');
+    setAutoFixLegibility(localStorage.getItem('infogenius_auto_legibility') === 'true');
+    const savedRatio = localStorage.getItem('infogenius_aspect_ratio') as AspectRatio;
+    const savedResolution = localStorage.getItem('infogenius_resolution') as ImageResolution;
+    setImageFormat({
+        aspectRatio: ASPECT_RATIOS.includes(savedRatio) ? savedRatio : DEFAULT_IMAGE_FORMAT.aspectRatio,
+        resolution: IMAGE_RESOLUTIONS.includes(savedResolution) ? savedResolution : DEFAULT_IMAGE_FORMAT.resolution
+    });
+    const savedVariants = Number(localStorage.getItem('infogenius_variant_count'));
+    if (savedVariants >= 1 && savedVariants <= MAX_VARIANTS) setVariantCount(savedVariants);
+    // Load provider selection, keeping defaults for anything added since it was saved
+    const savedProviders = localStorage.getItem('infogenius_provider_settings');
+    if (savedProviders) {
+        try {
+            const parsed = JSON.parse(savedProviders);
+            const merged: ProviderSettings = {
+                steps: { ...DEFAULT_PROVIDER_SETTINGS.steps, ...parsed.steps },
+                openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...parsed.openai }
+            };
+            setProviderSettingsState(merged);
+            setProviderSettings(merged);
+        } catch (err) {
+            console.warn('Ignoring invalid provider settings', err);
+        }
+    }
+  }, []);
+
+  // Restore the persisted library on mount
+  useEffect(() => {
+    loadImages()
+      .then(images => {
+        // Keep anything generated while the library was still loading on top
+        setImageHistory(prev => [...prev, ...images.filter(img => !prev.some(p => p.id === img.id))]);
+      })
+      .catch(err => console.error('Failed to load library', err));
   }, []);
 
   const changeUiLanguage = (lang: UiLanguage) => {
@@ -84,6 +178,197 @@ const App: React.FC = () => {
     setError(null);
   };
 
+  // Adds a new infographic to the top of the history and persists it to the library
+  const addToHistory = (image: GeneratedImage) => {
+    setImageHistory(prev => [image, ...prev]);
+    saveImage(image)
+      .then(evicted => {
+        if (evicted.length > 0) {
+          setImageHistory(prev => prev.filter(img => !evicted.includes(img.id)));
+        }
+      })
+      .catch(err => console.error('Failed to persist infographic', err));
+  };
+
+  // Replaces an entry in place, e.g. after its overlay was edited
+  const updateImage = (image: GeneratedImage) => {
+    setImageHistory(prev => prev.map(img => (img.id === image.id ? image : img)));
+    saveImage(image)
+      .then(evicted => {
+        if (evicted.length > 0) {
+          setImageHistory(prev => prev.filter(img => !evicted.includes(img.id)));
+        }
+      })
+      .catch(err => console.error('Failed to persist infographic', err));
+  };
+
+  const handleClearLibrary = async () => {
+    if (!window.confirm(t.history.clearConfirm)) return;
+    try {
+      await clearLibrary();
+      setImageHistory([]);
+    } catch (err) {
+      console.error('Failed to clear library', err);
+    }
+  };
+
+  const handleDeleteImages = async (ids: string[]) => {
+    setImageHistory(prev => prev.filter(img => !ids.includes(img.id)));
+    try {
+      await deleteImages(ids);
+    } catch (err) {
+      console.error('Failed to delete infographics', err);
+    }
+  };
+
+  // Imported entries join the library behind the current image; saved one by one so eviction sees each
+  const handleImportImages = async (images: GeneratedImage[]) => {
+    setImageHistory(prev => [...prev, ...images.filter(img => !prev.some(p => p.id === img.id))]);
+    for (const image of images) {
+      try {
+        const evicted = await saveImage(image);
+        if (evicted.length > 0) {
+          setImageHistory(prev => prev.filter(img => !evicted.includes(img.id)));
+        }
+      } catch (err) {
+        console.error('Failed to persist imported infographic', err);
+      }
+    }
+  };
+
+  const handleSaveProviders = (next: ProviderSettings) => {
+    localStorage.setItem('infogenius_provider_settings', JSON.stringify(next));
+    setProviderSettingsState(next);
+    setProviderSettings(next);
+    setShowProviderModal(false);
+    setError(null);
+  };
+
+  const beginRequest = (): AbortController => {
+    activeRequest.current?.abort();
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    return controller;
+  };
+
+  // Only the request that is still current may clear the loading state
+  const finishRequest = (controller: AbortController) => {
+    if (activeRequest.current !== controller) return;
+    activeRequest.current = null;
+    setIsLoading(false);
+    setLoadingStep(0);
+    setStreamingArticle(null);
+  };
+
+  const handleCancel = () => {
+    const controller = activeRequest.current;
+    if (!controller) return;
+    controller.abort();
+    activeRequest.current = null;
+    setIsLoading(false);
+    setLoadingStep(0);
+    setStreamingArticle(null);
+  };
+
+  const reportGenerationError = (err: any) => {
+    console.error(err);
+    // Check for specific billing/key errors
+    if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403") || err.message.includes("key") || err.message.includes("PERMISSION_DENIED") || err.message.includes("RESOURCE_EXHAUSTED"))) {
+        setError(t.errors.quota);
+        setShowKeyModal(true);
+    } else {
+        setError(t.errors.generic);
+    }
+  };
+
+  // Stores rendered images with the research they were made from; the first one ends up current
+  const keepVariants = (research: PendingResearch, variants: ImageVariant[]): GeneratedImage[] => {
+    const now = Date.now();
+    const images: GeneratedImage[] = variants.map((variant, i) => ({
+      id: variants.length > 1 ? `${now}-${i}` : now.toString(),
+      data: variant.data,
+      prompt: research.topic,
+      timestamp: now + variants.length - 1 - i,
+      level: research.level,
+      style: research.style,
+      language: research.language,
+      articleContent: research.result.articleContent,
+      facts: research.result.facts,
+      imagePrompt: variant.prompt,
+      searchResults: research.result.searchResults,
+      citations: research.result.citations,
+      factChecks: research.result.factChecks,
+      referenceImages: research.references.length > 0 ? research.references : undefined,
+      aspectRatio: variant.format?.aspectRatio,
+      resolution: variant.format?.resolution
+    }));
+    [...images].reverse().forEach(image => addToHistory(image));
+    setPendingResearch(null);
+    return images;
+  };
+
+  // New version derived from `source`, inheriting its research
+  const createChildVersion = (source: GeneratedImage, data: string, instruction: string): GeneratedImage => ({
+    id: Date.now().toString(),
+    data,
+    prompt: instruction,
+    timestamp: Date.now(),
+    level: source.level,
+    style: source.style,
+    language: source.language,
+    articleContent: source.articleContent,
+    facts: source.facts,
+    searchResults: source.searchResults,
+    citations: source.citations,
+    factChecks: source.factChecks,
+    referenceImages: source.referenceImages,
+    // Edits keep the canvas, so the format carries over
+    aspectRatio: source.aspectRatio,
+    resolution: source.resolution,
+    // Labels are kept too; they are stored as fractions of the image, so they stay in place
+    overlay: source.overlay,
+    parentId: source.id,
+    editInstruction: instruction
+  });
+
+  const legibilityInstruction = (fixes: LegibilityFix[]) => {
+    return `${t.legibility.version}: ${fixes.map(fix => t.legibility.fixes[fix]).join(', ')}`;
+  };
+
+  // Post-generation pass; if it fails the original is kept and the generation still succeeds
+  const runAutoLegibilityFix = async (source: GeneratedImage, signal: AbortSignal) => {
+    setLoadingMessage(t.loading.fixing);
+    try {
+      const data = await fixInfographicLegibility(source.data, LEGIBILITY_FIXES, source.language, signal);
+      if (signal.aborted) return;
+      addToHistory(createChildVersion(source, data, legibilityInstruction(LEGIBILITY_FIXES)));
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      console.warn('Automatic legibility pass failed', err);
+    }
+  };
+
+  // Step 2 outcome: a single image goes straight to history, several go to the picker
+  const renderInfographic = async (research: PendingResearch, images: Promise<ImageVariant[]>, signal: AbortSignal) => {
+    const variants = await images;
+    // A cancelled request must never land in the history, even if the backend ignored the abort
+    if (signal.aborted) return;
+
+    if (variants.length === 1) {
+      const [kept] = keepVariants(research, variants);
+      if (autoFixLegibility) await runAutoLegibilityFix(kept, signal);
+    } else {
+      setCandidates({ research, variants });
+    }
+  };
+
+  const handleKeepCandidates = (variants: ImageVariant[]) => {
+    if (!candidates) return;
+    const [winner] = keepVariants(candidates.research, variants);
+    setCandidates(null);
+    if (autoFixLegibility && winner) handleFixLegibility(LEGIBILITY_FIXES, winner);
+  };
+
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (isLoading) return;
@@ -95,73 +380,174 @@ const App: React.FC = () => {
 
     setIsLoading(true);
     setError(null);
+    setReviewing(null);
+    setCandidates(null);
     setLoadingStep(1);
     setLoadingFacts([]);
-    setCurrentSearchResults([]);
+    setLoadingFactChecks([]);
     setLoadingMessage(t.loading.researching);
 
-    try {
-      // Step 1: Research and Construct Prompt
-      const researchResult = await researchTopicForPrompt(topic, complexityLevel, visualStyle, language);
-      
-      setLoadingFacts(researchResult.facts);
-      setCurrentSearchResults(researchResult.searchResults);
-      
+    const controller = beginRequest();
+    const { signal } = controller;
+
+    // Without review, step 2 starts as soon as the image prompt is known, while the article may still be streaming.
+    // Fact-check mode holds it back until the facts are verified, so contradicted ones stay out of the prompt.
+    let started = null as Promise<ImageVariant[]> | null;
+    let startedPrompt = '';
+    const startImage = (imagePrompt: string, facts: string[], factChecks?: FactCheck[]) => {
+      if (reviewPrompt || (factCheck && !factChecks) || started || signal.aborted) return;
+      startedPrompt = imagePrompt;
       setLoadingStep(2);
       setLoadingMessage(t.loading.designing);
-      
-      // Step 2: Direct Image Generation
-      let base64Data = await generateInfographicImage(researchResult.imagePrompt);
-      
-      const newImage: GeneratedImage = {
-        id: Date.now().toString(),
-        data: base64Data,
-        prompt: topic,
-        timestamp: Date.now(),
-        level: complexityLevel,
-        style: visualStyle,
-        language: language,
-        articleContent: researchResult.articleContent
-      };
-
-      setImageHistory([newImage, ...imageHistory]);
-    } catch (err: any) {
-      console.error(err);
-      // Check for specific billing/key errors
-      if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403") || err.message.includes("key") || err.message.includes("PERMISSION_DENIED") || err.message.includes("RESOURCE_EXHAUSTED"))) {
-          setError(t.errors.quota);
-          setShowKeyModal(true);
-      } else {
-          setError(t.errors.generic);
+      started = generateInfographicVariants(composeImagePrompt(imagePrompt, facts, factChecks), variantCount, signal, referenceImages, imageFormat);
+      // Awaited later; this only keeps a failure during research from being reported as unhandled
+      started.catch(() => undefined);
+    };
+
+    try {
+      // Step 1: Research and Construct Prompt (reusing research kept from a cancelled run with the same settings)
+      const documentIds = sourceDocuments.map(document => document.id).join(',');
+      const canReuse = pendingResearch !== null &&
+        pendingResearch.topic === topic &&
+        pendingResearch.level === complexityLevel &&
+        pendingResearch.style === visualStyle &&
+        pendingResearch.language === language &&
+        pendingResearch.documentIds === documentIds &&
+        pendingResearch.references.length === referenceImages.length &&
+        pendingResearch.references.every((reference, i) => reference === referenceImages[i]);
+      let shownFacts = 0;
+      let researchResult = canReuse
+        ? pendingResearch.result
+        : await researchTopicForPrompt(topic, complexityLevel, visualStyle, language, signal, draft => {
+            if (signal.aborted) return;
+            // Only push new facts, so the ticker is not restarted on every chunk
+            if (draft.facts.length > shownFacts) {
+              shownFacts = draft.facts.length;
+              setLoadingFacts(draft.facts);
+            }
+            if (draft.articleContent) setStreamingArticle(draft.articleContent);
+            if (draft.imagePrompt) startImage(draft.imagePrompt, draft.facts);
+          }, sourceDocuments, referenceImages);
+      if (signal.aborted) return;
+      setLoadingFacts(researchResult.facts);
+
+      if (factCheck && !researchResult.factChecks) {
+        setLoadingMessage(t.factCheck.verifying);
+        const factChecks = await verifyFacts(researchResult.facts, researchResult.searchResults, language, signal, sourceDocuments);
+        if (signal.aborted) return;
+        researchResult = { ...researchResult, factChecks };
+      }
+      setLoadingFactChecks(researchResult.factChecks || []);
+      // A repaired final answer can carry a different prompt than the streamed one the image was started from
+      if (started && startedPrompt !== researchResult.imagePrompt) {
+        researchResult = { ...researchResult, imagePrompt: startedPrompt };
+      }
+
+      // Keep the research so cancelling the image step does not throw it away
+      const research: PendingResearch = { topic, level: complexityLevel, style: visualStyle, language, documentIds, references: referenceImages, result: researchResult };
+      setPendingResearch(research);
+
+      if (reviewPrompt) {
+        // Pause between the steps; handleReviewConfirm picks up from here
+        setReviewing(research);
+        return;
       }
+
+      setStreamingArticle(researchResult.articleContent);
+      startImage(researchResult.imagePrompt, researchResult.facts, researchResult.factChecks);
+      await renderInfographic(research, started!, signal);
+    } catch (err: any) {
+      if (signal.aborted || isAbortError(err)) return;
+      // An image started from the streamed prompt would otherwise keep running for nothing
+      controller.abort();
+      reportGenerationError(err);
     } finally {
-      setIsLoading(false);
-      setLoadingStep(0);
+      finishRequest(controller);
     }
   };
 
-  const handleEdit = async (editPrompt: string) => {
-    if (imageHistory.length === 0) return;
-    const currentImage = imageHistory[0];
+  const handleReviewConfirm = async (facts: string[], imagePrompt: string) => {
+    if (!reviewing) return;
+    const research: PendingResearch = { ...reviewing, result: { ...reviewing.result, facts, imagePrompt } };
+    // Edits survive a cancel, like the research itself
+    setPendingResearch(research);
+    setReviewing(null);
+
     setIsLoading(true);
     setError(null);
     setLoadingStep(2);
-    setLoadingMessage(`${t.loading.processing} "${editPrompt}"...`);
+    setLoadingFacts(facts);
+    setLoadingFactChecks(research.result.factChecks || []);
+    setLoadingMessage(t.loading.designing);
+
+    const controller = beginRequest();
+    const { signal } = controller;
+    const prompt = composeImagePrompt(imagePrompt, facts, research.result.factChecks);
 
     try {
-      const base64Data = await editInfographicImage(currentImage.data, editPrompt);
-      const newImage: GeneratedImage = {
-        id: Date.now().toString(),
-        data: base64Data,
-        prompt: editPrompt,
-        timestamp: Date.now(),
-        level: currentImage.level,
-        style: currentImage.style,
-        language: currentImage.language,
-        articleContent: currentImage.articleContent
-      };
-      setImageHistory([newImage, ...imageHistory]);
+      await renderInfographic(research, generateInfographicVariants(prompt, variantCount, signal, research.references, imageFormat), signal);
     } catch (err: any) {
+      if (signal.aborted || isAbortError(err)) return;
+      reportGenerationError(err);
+    } finally {
+      finishRequest(controller);
+    }
+  };
+
+  const changeImageFormat = (format: ImageFormat) => {
+    localStorage.setItem('infogenius_aspect_ratio', format.aspectRatio);
+    localStorage.setItem('infogenius_resolution', format.resolution);
+    setImageFormat(format);
+  };
+
+  // The shape select lists presets first; picking one also sets the resolution
+  const activePreset = (Object.keys(FORMAT_PRESETS) as FormatPreset[]).find(preset =>
+    FORMAT_PRESETS[preset].aspectRatio === imageFormat.aspectRatio && FORMAT_PRESETS[preset].resolution === imageFormat.resolution);
+
+  const handleShapeChange = (value: string) => {
+    if (value.startsWith('preset:')) {
+      changeImageFormat(FORMAT_PRESETS[value.slice('preset:'.length) as FormatPreset]);
+    } else {
+      changeImageFormat({ ...imageFormat, aspectRatio: value as AspectRatio });
+    }
+  };
+
+  const changeVariantCount = (count: number) => {
+    localStorage.setItem('infogenius_variant_count', String(count));
+    setVariantCount(count);
+  };
+
+  const toggleAutoFixLegibility = () => {
+    localStorage.setItem('infogenius_auto_legibility', String(!autoFixLegibility));
+    setAutoFixLegibility(!autoFixLegibility);
+  };
+
+  const toggleFactCheck = () => {
+    localStorage.setItem('infogenius_fact_check', String(!factCheck));
+    setFactCheck(!factCheck);
+  };
+
+  const toggleReviewPrompt = () => {
+    localStorage.setItem('infogenius_review_prompt', String(!reviewPrompt));
+    setReviewPrompt(!reviewPrompt);
+  };
+
+  // Shared lifecycle of edit-style actions: the result is stored as a child version of `source`
+  const runImageEdit = async (source: GeneratedImage, instruction: string, message: string, edit: (signal: AbortSignal) => Promise<string>) => {
+    setIsLoading(true);
+    setError(null);
+    setLoadingStep(2);
+    setLoadingMessage(message);
+
+    const controller = beginRequest();
+    const { signal } = controller;
+
+    try {
+      const base64Data = await edit(signal);
+      if (signal.aborted) return;
+      addToHistory(createChildVersion(source, base64Data, instruction));
+    } catch (err: any) {
+      if (signal.aborted || isAbortError(err)) return;
       console.error(err);
       if (err.message && (err.message.includes("Requested entity was not found") || err.message.includes("404") || err.message.includes("403"))) {
           setError(t.errors.accessDenied);
@@ -170,16 +556,56 @@ const App: React.FC = () => {
           setError(t.errors.modFailed);
       }
     } finally {
-      setIsLoading(false);
-      setLoadingStep(0);
+      finishRequest(controller);
     }
   };
 
+  const handleEdit = (editPrompt: string) => {
+    if (imageHistory.length === 0) return;
+    const currentImage = imageHistory[0];
+    runImageEdit(currentImage, editPrompt, `${t.loading.processing} "${editPrompt}"...`,
+      signal => editInfographicImage(currentImage.data, editPrompt, signal));
+  };
+
+  const handleEditRegion = (mask: string, editPrompt: string) => {
+    if (imageHistory.length === 0) return;
+    const currentImage = imageHistory[0];
+    runImageEdit(currentImage, `${t.region.version}: ${editPrompt}`, `${t.loading.processing} "${editPrompt}"...`,
+      signal => editInfographicRegion(currentImage.data, mask, editPrompt, signal));
+  };
+
+  const handleFixLegibility = (fixes: LegibilityFix[], source: GeneratedImage | undefined = imageHistory[0]) => {
+    if (!source || fixes.length === 0) return;
+    runImageEdit(source, legibilityInstruction(fixes), t.loading.fixing,
+      signal => fixInfographicLegibility(source.data, fixes, source.language, signal));
+  };
+
   const restoreImage = (img: GeneratedImage) => {
      const newHistory = imageHistory.filter(i => i.id !== img.id);
      setImageHistory([img, ...newHistory]);
   };
 
+  const openFromLibrary = (img: GeneratedImage) => {
+    restoreImage(img);
+    setShowLibrary(false);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Compares the current version with the one it was edited from, or with the previous entry
+  const compareWithPrevious = () => {
+    const current = imageHistory[0];
+    const previous = imageHistory.find(img => img.id === current.parentId) || imageHistory[1];
+    if (previous) {
+      setComparePair([previous.id, current.id]);
+    }
+  };
+
+  // Selecting a node in the version tree makes it current, so the next edit forks from it
+  const selectVersion = (img: GeneratedImage) => {
+    restoreImage(img);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   // Custom Key Management Modal
   const KeySelectionModal = ({ onClose }: { onClose: () => void }) => (
     <div className="fixed inset-0 z-[200] bg-slate-950/90 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
@@ -227,6 +653,36 @@ const App: React.FC = () => {
                     />
                 </div>
 
+                {keyStats.length > 0 && (keyStats.length > 1 || keyStats[0].successCount + keyStats[0].failureCount > 0) && (
+                    <div className="space-y-2">
+                        <h3 className="text-sm font-bold text-slate-700 dark:text-slate-300">{t.apiModal.statsTitle}</h3>
+                        <ul className="space-y-1.5">
+                            {keyStats.map((stats, index) => {
+                                const coolingDown = stats.cooldownUntil !== undefined && stats.cooldownUntil > Date.now();
+                                return (
+                                    <li key={index} className="bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg px-3 py-2 text-xs">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="font-mono text-slate-700 dark:text-slate-300">{stats.label}</span>
+                                            <span className={`text-[10px] font-bold uppercase tracking-wider ${coolingDown ? 'text-amber-600 dark:text-amber-400' : 'text-green-600 dark:text-green-400'}`}>
+                                                {coolingDown ? t.apiModal.coolingDown : t.apiModal.healthy}
+                                            </span>
+                                        </div>
+                                        <div className="flex gap-3 mt-1 text-[10px] text-slate-500 dark:text-slate-400">
+                                            <span>{t.apiModal.successes}: <strong className="text-slate-700 dark:text-slate-200">{stats.successCount}</strong></span>
+                                            <span>{t.apiModal.failures}: <strong className="text-slate-700 dark:text-slate-200">{stats.failureCount}</strong></span>
+                                        </div>
+                                        {stats.lastError && (
+                                            <p className="mt-1 text-[10px] text-red-600 dark:text-red-400 truncate" title={stats.lastError}>
+                                                {t.apiModal.lastError}: {stats.lastError}
+                                            </p>
+                                        )}
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </div>
+                )}
+
                 <div className="flex gap-3 pt-2">
                     <button 
                         onClick={handleSaveKeys}
@@ -275,6 +731,36 @@ const App: React.FC = () => {
     {/* Only show modal if triggered explicitly */}
     {showKeyModal && <KeySelectionModal onClose={() => setShowKeyModal(false)} />}
 
+    {showProviderModal && (
+      <ProviderSettingsModal
+        settings={providerSettings}
+        lang={uiLanguage}
+        onSave={handleSaveProviders}
+        onClose={() => setShowProviderModal(false)}
+      />
+    )}
+
+    {comparePair && (
+      <CompareView
+        images={imageHistory}
+        leftId={comparePair[0]}
+        rightId={comparePair[1]}
+        lang={uiLanguage}
+        onClose={() => setComparePair(null)}
+      />
+    )}
+
+    {showLibrary && (
+      <Library
+        images={imageHistory}
+        lang={uiLanguage}
+        onOpen={openFromLibrary}
+        onDelete={handleDeleteImages}
+        onImport={handleImportImages}
+        onClose={() => setShowLibrary(false)}
+      />
+    )}
+
     {showIntro ? (
       <IntroScreen onComplete={() => setShowIntro(false)} lang={uiLanguage} />
     ) : (
@@ -300,6 +786,7 @@ const App: React.FC = () => {
             <div className="flex flex-col">
                 <span className="font-display font-bold text-lg md:text-2xl tracking-tight text-slate-900 dark:text-white leading-none">
                 InfoGenius <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-600 to-indigo-600 dark:from-cyan-400 dark:to-amber-400">Free</span>
+                {isMockMode && <span className="ml-2 align-middle text-[9px] font-bold tracking-widest uppercase px-1.5 py-0.5 rounded bg-amber-100 dark:bg-amber-900/40 text-amber-700 dark:text-amber-300 border border-amber-300 dark:border-amber-700/50">Mock</span>}
                 </span>
                 <a href="https://fabioarieira.com" target="_blank" rel="noopener noreferrer" className="text-[8px] md:text-[10px] uppercase tracking-[0.2em] text-slate-500 dark:text-slate-400 font-medium hover:text-cyan-600 dark:hover:text-cyan-400 transition-colors flex items-center gap-1 mt-0.5">
                     {t.header.subtitle}
@@ -315,6 +802,25 @@ const App: React.FC = () => {
                  <button onClick={() => changeUiLanguage('es')} className={`px-2 py-1 text-xs font-bold rounded ${uiLanguage === 'es' ? 'bg-white dark:bg-slate-700 shadow-sm text-cyan-600 dark:text-cyan-400' : 'text-slate-500 hover:text-slate-800 dark:hover:text-slate-300'}`}>ES</button>
               </div>
 
+              <button 
+                onClick={() => setShowLibrary(true)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                title={t.library.open}
+              >
+                <LibraryIcon className="w-3.5 h-3.5" />
+                <span className="hidden md:inline">{t.library.open}</span>
+                {imageHistory.length > 0 && <span className="text-[10px] font-bold text-cyan-600 dark:text-cyan-400">{imageHistory.length}</span>}
+              </button>
+
+              <button 
+                onClick={() => setShowProviderModal(true)}
+                className="hidden md:flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                title={t.providers.button}
+              >
+                <Cpu className="w-3.5 h-3.5" />
+                <span>{t.providers.button}</span>
+              </button>
+
               <button 
                 onClick={() => setShowKeyModal(true)}
                 className="hidden md:flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
@@ -373,6 +879,8 @@ const App: React.FC = () => {
                         />
                     </div>
 
+                    <ReferenceImagePicker images={referenceImages} lang={uiLanguage} onChange={setReferenceImages} />
+
                     {/* Controls Bar */}
                     <div className="flex flex-col md:flex-row gap-2 p-2 mt-2">
                     
@@ -432,20 +940,55 @@ const App: React.FC = () => {
                                 onChange={(e) => setLanguage(e.target.value as Language)}
                                 className="bg-transparent border-none text-base font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full hover:text-green-600 dark:hover:text-green-300 transition-colors truncate pr-4 [&>option]:bg-white [&>option]:text-slate-900 dark:[&>option]:bg-slate-900 dark:[&>option]:text-slate-100"
                             >
-                                <option value="Portuguese">Português</option>
-                                <option value="English">English</option>
-                                <option value="Spanish">Español</option>
-                                <option value="French">Français</option>
-                                <option value="German">Deutsch</option>
-                                <option value="Mandarin">普通话 (Mandarin)</option>
-                                <option value="Japanese">日本語 (Japanese)</option>
-                                <option value="Hindi">हिन्दी (Hindi)</option>
-                                <option value="Arabic">العربية (Arabic)</option>
-                                <option value="Russian">Русский (Russian)</option>
+                                {(Object.keys(languageNames) as Language[]).map(lang => (
+                                    <option key={lang} value={lang}>{languageNames[lang]}</option>
+                                ))}
                             </select>
                         </div>
                     </div>
 
+                    {/* Format Selector */}
+                    <div className="flex-1 bg-slate-50 dark:bg-slate-950/50 rounded-2xl border border-slate-200 dark:border-white/5 px-4 py-3 flex items-center gap-3 hover:border-amber-500/30 transition-colors relative overflow-hidden group/item">
+                         <div className="p-2 bg-white dark:bg-slate-800 rounded-lg text-amber-600 dark:text-amber-400 shrink-0 shadow-sm">
+                            <Proportions className="w-4 h-4" />
+                        </div>
+                        <div className="flex flex-col z-10 w-full overflow-hidden">
+                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.format.label}</label>
+                            <div className="flex items-center gap-2">
+                                <select 
+                                    value={activePreset ? `preset:${activePreset}` : imageFormat.aspectRatio} 
+                                    onChange={(e) => handleShapeChange(e.target.value)}
+                                    className="bg-transparent border-none text-base font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer p-0 w-full hover:text-amber-600 dark:hover:text-amber-300 transition-colors truncate pr-4 [&_option]:bg-white [&_option]:text-slate-900 dark:[&_option]:bg-slate-900 dark:[&_option]:text-slate-100"
+                                >
+                                    <optgroup label={t.format.presets}>
+                                        {(Object.keys(FORMAT_PRESETS) as FormatPreset[]).map(preset => (
+                                            <option key={preset} value={`preset:${preset}`}>
+                                                {t.format.presetNames[preset]} ({describeFormat(FORMAT_PRESETS[preset])})
+                                            </option>
+                                        ))}
+                                    </optgroup>
+                                    <optgroup label={t.format.ratios}>
+                                        {ASPECT_RATIOS.map(ratio => (
+                                            <option key={ratio} value={ratio}>{ratio} · {t.format.orientations[orientationOf(ratio)]}</option>
+                                        ))}
+                                    </optgroup>
+                                </select>
+                                <select
+                                    value={imageFormat.resolution}
+                                    onChange={(e) => changeImageFormat({ ...imageFormat, resolution: e.target.value as ImageResolution })}
+                                    className="bg-transparent border border-slate-200 dark:border-white/10 rounded px-1 text-xs font-bold text-slate-700 dark:text-slate-200 cursor-pointer [&>option]:bg-white [&>option]:text-slate-900 dark:[&>option]:bg-slate-900 dark:[&>option]:text-slate-100"
+                                    title={`${t.format.resolution}: ${t.format.paidHint}`}
+                                >
+                                    {IMAGE_RESOLUTIONS.map(resolution => (
+                                        <option key={resolution} value={resolution}>
+                                            {isPaidResolution(resolution) ? `${resolution} (${t.format.paid})` : resolution}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                    </div>
+
                     {/* Generate Button */}
                     <div className="flex flex-col gap-1 w-full md:w-auto">
                         <button
@@ -457,17 +1000,116 @@ const App: React.FC = () => {
                             <span>{t.search.button}</span>
                         </button>
                         <div className="text-center">
-                            <span className="text-[9px] text-slate-400 font-medium uppercase tracking-wider opacity-70">{t.search.format}</span>
+                            <span className="text-[9px] text-slate-400 font-medium uppercase tracking-wider opacity-70">{t.search.format.replace('{format}', describeFormat(imageFormat)!)}</span>
                         </div>
+                        <label className="flex items-center justify-center gap-1.5 text-[10px] text-slate-500 dark:text-slate-400 font-medium cursor-pointer select-none">
+                            <input
+                                type="checkbox"
+                                checked={reviewPrompt}
+                                onChange={toggleReviewPrompt}
+                                className="accent-cyan-600"
+                            />
+                            {t.search.reviewPrompt}
+                        </label>
+                        <label className="flex items-center justify-center gap-1.5 text-[10px] text-slate-500 dark:text-slate-400 font-medium cursor-pointer select-none">
+                            <input
+                                type="checkbox"
+                                checked={factCheck}
+                                onChange={toggleFactCheck}
+                                className="accent-cyan-600"
+                            />
+                            {t.factCheck.toggle}
+                        </label>
+                        <label className="flex items-center justify-center gap-1.5 text-[10px] text-slate-500 dark:text-slate-400 font-medium cursor-pointer select-none">
+                            <input
+                                type="checkbox"
+                                checked={autoFixLegibility}
+                                onChange={toggleAutoFixLegibility}
+                                className="accent-cyan-600"
+                            />
+                            {t.legibility.auto}
+                        </label>
+                        <label className="flex items-center justify-center gap-1.5 text-[10px] text-slate-500 dark:text-slate-400 font-medium">
+                            {t.search.variants}
+                            <select
+                                value={variantCount}
+                                onChange={(e) => changeVariantCount(Number(e.target.value))}
+                                className="bg-transparent border border-slate-200 dark:border-white/10 rounded px-1 text-[10px] font-bold text-slate-700 dark:text-slate-200 cursor-pointer [&>option]:bg-white [&>option]:text-slate-900 dark:[&>option]:bg-slate-900 dark:[&>option]:text-slate-100"
+                            >
+                                {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => (
+                                    <option key={n} value={n}>{n}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <button
+                            type="button"
+                            onClick={() => setShowSources(prev => !prev)}
+                            className={`flex items-center justify-center gap-1.5 text-[10px] font-bold transition-colors ${sourceDocuments.length > 0 ? 'text-cyan-600 dark:text-cyan-400' : 'text-slate-500 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-400'}`}
+                            title={t.documents.title}
+                        >
+                            <Files className="w-3 h-3" />
+                            {t.documents.button}{sourceDocuments.length > 0 && ` (${sourceDocuments.length})`}
+                        </button>
                     </div>
 
                     </div>
                 </div>
             </div>
           </form>
+
+          {showSources && (
+            <SourceDocumentsPanel
+                documents={sourceDocuments}
+                lang={uiLanguage}
+                onChange={setSourceDocuments}
+                onClose={() => setShowSources(false)}
+            />
+          )}
+          {!showSources && sourceDocuments.length > 0 && (
+            <p className="mt-3 flex items-center justify-center gap-1.5 text-xs text-cyan-700 dark:text-cyan-400 font-medium">
+                <Files className="w-3.5 h-3.5" />
+                {t.documents.active.replace('{n}', String(sourceDocuments.length))}
+            </p>
+          )}
         </div>
 
-        {isLoading && <Loading status={loadingMessage} step={loadingStep} facts={loadingFacts} lang={uiLanguage} />}
+        {reviewing && !isLoading && (
+            <PromptReview
+                facts={reviewing.result.facts}
+                imagePrompt={reviewing.result.imagePrompt}
+                lang={uiLanguage}
+                onConfirm={handleReviewConfirm}
+                onCancel={() => setReviewing(null)}
+            />
+        )}
+
+        {candidates && !isLoading && (
+            <VariantPicker
+                variants={candidates.variants}
+                lang={uiLanguage}
+                onKeep={handleKeepCandidates}
+                onDiscard={() => setCandidates(null)}
+            />
+        )}
+
+        {pendingResearch && !isLoading && !reviewing && !candidates && (
+          <div className="max-w-2xl mx-auto mt-6 p-4 bg-amber-50 dark:bg-amber-900/10 border border-amber-200 dark:border-amber-800/30 rounded-2xl flex items-center gap-3 text-amber-800 dark:text-amber-200 text-sm animate-in fade-in print:hidden">
+            <History className="w-5 h-5 shrink-0 text-amber-600 dark:text-amber-400" />
+            <p className="flex-1">{t.search.pendingResearch.replace('{topic}', pendingResearch.topic)}</p>
+            <button
+              onClick={() => setPendingResearch(null)}
+              className="text-xs font-bold underline hover:text-amber-900 dark:hover:text-amber-100 shrink-0"
+            >
+              {t.search.discardResearch}
+            </button>
+          </div>
+        )}
+
+        {isLoading && <Loading status={loadingMessage} step={loadingStep} facts={loadingFacts} factChecks={loadingFactChecks} lang={uiLanguage} onCancel={handleCancel} />}
+
+        {isLoading && streamingArticle && (
+            <ArticleSection content={streamingArticle} lang={uiLanguage} isStreaming />
+        )}
 
         {error && (
           <div className="max-w-2xl mx-auto mt-8 p-6 bg-red-100 dark:bg-red-500/10 border border-red-200 dark:border-red-500/30 rounded-2xl flex items-center gap-4 text-red-800 dark:text-red-200 backdrop-blur-sm animate-in fade-in slide-in-from-bottom-4 shadow-sm">
@@ -493,6 +1135,18 @@ const App: React.FC = () => {
                     onEdit={handleEdit} 
                     isEditing={isLoading}
                     lang={uiLanguage}
+                    onCompare={imageHistory.length > 1 ? compareWithPrevious : undefined}
+                    onFixLegibility={handleFixLegibility}
+                    onEditRegion={handleEditRegion}
+                    onSaveOverlay={(overlay) => updateImage({ ...imageHistory[0], overlay })}
+                />
+
+                <VersionTree
+                    images={imageHistory}
+                    current={imageHistory[0]}
+                    lang={uiLanguage}
+                    onSelect={selectVersion}
+                    onCompare={(left, right) => setComparePair([left.id, right.id])}
                 />
                 
                 <ArticleSection 
@@ -501,16 +1155,36 @@ const App: React.FC = () => {
                     lang={uiLanguage}
                 />
 
-                <SearchResults results={currentSearchResults} lang={uiLanguage} />
+                <SearchResults results={imageHistory[0].searchResults || []} lang={uiLanguage} />
             </>
         )}
 
-        {imageHistory.length > 1 && (
+        {/* Shown for a single entry too, so the library can always be opened and cleared */}
+        {imageHistory.length > 0 && (
             <div className="max-w-7xl mx-auto mt-16 md:mt-24 border-t border-slate-200 dark:border-white/10 pt-12 transition-colors print:hidden">
-                <h3 className="text-xs font-bold text-slate-500 uppercase tracking-[0.2em] mb-8 flex items-center gap-3">
-                    <History className="w-4 h-4" />
-                    {t.history.title}
-                </h3>
+                <div className="flex items-center justify-between mb-8">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase tracking-[0.2em] flex items-center gap-3">
+                        <History className="w-4 h-4" />
+                        {t.history.title}
+                    </h3>
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => setShowLibrary(true)}
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-cyan-50 dark:hover:bg-slate-700 text-slate-500 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                        >
+                            <LibraryIcon className="w-3.5 h-3.5" />
+                            <span>{t.history.viewAll}</span>
+                        </button>
+                        <button
+                            onClick={handleClearLibrary}
+                            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-red-50 dark:hover:bg-red-900/30 text-slate-500 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+                        >
+                            <Trash2 className="w-3.5 h-3.5" />
+                            <span>{t.history.clear}</span>
+                        </button>
+                    </div>
+                </div>
+                {imageHistory.length > 1 && (
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 md:gap-6">
                     {imageHistory.slice(1).map((img) => (
                         <div 
@@ -522,12 +1196,13 @@ const App: React.FC = () => {
                             <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 to-transparent p-4 pt-8 translate-y-4 group-hover:translate-y-0 transition-transform duration-300">
                                 <p className="text-xs text-white font-bold truncate mb-1 font-display">{img.prompt}</p>
                                 <div className="flex gap-2">
-                                    {img.level && <span className="text-[9px] text-cyan-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-cyan-900/60 border border-cyan-500/20">{t.options.levels[img.level] || img.level}</span>}
+                                    {img.level && <span className="text-[9px] text-cyan-100 uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-cyan-900/60 border border-cyan-500/20">{getLevelLabel(uiLanguage, img.level)}</span>}
                                 </div>
                             </div>
                         </div>
                     ))}
                 </div>
+                )}
             </div>
         )}
 
@@ -2,20 +2,47 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { GeneratedImage, UiLanguage } from '../types';
 import { translations } from '../translations';
-import { Printer, Copy, FileText } from 'lucide-react';
+import { createHandoutPdf, PaperSize, PAPER_SIZES } from '../services/pdfExport';
+import { createSlideDeck } from '../services/pptxExport';
+import { createExportBundle } from '../services/bundleExport';
+import { downloadBlob, dateStamp, slugify } from '../utils/download';
+import { parseMarkdown, getTableOfContents } from '../utils/markdown';
+import { injectCitationMarkers, getFactSources } from '../utils/citations';
+import MarkdownContent from './MarkdownContent';
+import CitationMarker from './CitationMarker';
+import FactCheckBadge from './FactCheckBadge';
+import { Printer, Copy, FileText, Loader2, FileDown, ChevronDown, Presentation, FileArchive, ListTree, Lightbulb } from 'lucide-react';
+
+// Doubles as the file extension of the download
+type ExportKind = 'pdf' | 'pptx' | 'zip';
+
+// A contents box only pays off once the article has a few sections
+const MIN_TOC_ENTRIES = 3;
 
 interface ArticleSectionProps {
   content?: string;
-  image: GeneratedImage;
+  image?: GeneratedImage; // Absent while the article streams in ahead of the image
   lang: UiLanguage;
+  isStreaming?: boolean;
 }
 
-const ArticleSection: React.FC<ArticleSectionProps> = ({ content, image, lang }) => {
+const ArticleSection: React.FC<ArticleSectionProps> = ({ content, image, lang, isStreaming = false }) => {
+  const [paperSize, setPaperSize] = useState<PaperSize>('a4');
+  const [showPaperSizes, setShowPaperSizes] = useState(false);
+  const [exporting, setExporting] = useState<ExportKind | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const citations = isStreaming ? undefined : image?.citations;
+  const blocks = useMemo(() => parseMarkdown(injectCitationMarkers(content || '', citations || [])), [content, citations]);
+  const toc = useMemo(() => getTableOfContents(blocks), [blocks]);
+
   if (!content) return null;
   const t = translations[lang];
+  const minTocLevel = Math.min(...toc.map(entry => entry.level));
+  const facts = isStreaming ? [] : image?.facts || [];
+  const renderCitation = (sources: number[]) => <CitationMarker sources={sources} results={image?.searchResults || []} lang={lang} />;
 
   const handlePrint = () => {
     window.print();
@@ -25,40 +52,26 @@ const ArticleSection: React.FC<ArticleSectionProps> = ({ content, image, lang })
     navigator.clipboard.writeText(content);
   };
 
-  // Simple formatter to handle bolding **text** and headers # or ##
-  const renderContent = (text: string) => {
-    return text.split('\n').map((line, i) => {
-        if (line.startsWith('# ')) {
-            return <h1 key={i} className="text-2xl md:text-3xl font-bold font-serif-display mb-4 mt-8 text-slate-900 dark:text-white border-b-2 border-slate-100 dark:border-white/10 pb-2">{line.replace('# ', '')}</h1>
-        }
-        if (line.startsWith('## ')) {
-            return <h2 key={i} className="text-xl md:text-2xl font-bold font-serif-display mb-3 mt-6 text-slate-800 dark:text-slate-100">{line.replace('## ', '')}</h2>
-        }
-        if (line.startsWith('### ')) {
-            return <h3 key={i} className="text-lg md:text-xl font-bold font-serif-display mb-2 mt-4 text-cyan-700 dark:text-cyan-400">{line.replace('### ', '')}</h3>
-        }
-        if (line.trim().startsWith('- ')) {
-             return <li key={i} className="ml-4 mb-2 text-slate-700 dark:text-slate-300 list-disc marker:text-cyan-500">{line.replace('- ', '')}</li>
-        }
-        if (line.trim() === '') {
-            return <br key={i} />;
-        }
-        
-        // Handle bolding **text**
-        const parts = line.split(/(\*\*.*?\*\*)/g);
-        return (
-            <p key={i} className="mb-3 text-slate-700 dark:text-slate-300 leading-relaxed text-justify">
-                {parts.map((part, j) => {
-                    if (part.startsWith('**') && part.endsWith('**')) {
-                        return <strong key={j} className="font-bold text-slate-900 dark:text-white">{part.slice(2, -2)}</strong>;
-                    }
-                    return part;
-                })}
-            </p>
-        );
-    });
+  const runExport = async (kind: ExportKind, build: (image: GeneratedImage) => Promise<Blob>, failedMessage: string) => {
+    if (!image) return;
+    setShowPaperSizes(false);
+    setExporting(kind);
+    setExportError(null);
+    try {
+      const file = await build(image);
+      downloadBlob(file, `infogenius-${slugify(image.prompt)}-${dateStamp(image.timestamp)}.${kind}`);
+    } catch (err) {
+      console.error(`${kind.toUpperCase()} export failed`, err);
+      setExportError(failedMessage);
+    } finally {
+      setExporting(null);
+    }
   };
 
+  const handleExportPdf = () => runExport('pdf', source => createHandoutPdf(source, paperSize, lang), t.pdf.failed);
+  const handleExportSlides = () => runExport('pptx', source => createSlideDeck(source, lang), t.slides.failed);
+  const handleExportBundle = () => runExport('zip', source => createExportBundle(source, lang), t.bundle.failed);
+
   return (
     <div className="w-full max-w-6xl mx-auto mt-12 mb-8 animate-in fade-in slide-in-from-bottom-8 duration-1000">
       
@@ -69,8 +82,16 @@ const ArticleSection: React.FC<ArticleSectionProps> = ({ content, image, lang })
                 <FileText className="w-5 h-5" />
             </div>
             <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">{t.article.label}</h3>
+            {isStreaming && (
+                <span className="flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-wider text-cyan-600 dark:text-cyan-400">
+                    <Loader2 className="w-3 h-3 animate-spin" />
+                    {t.article.writing}
+                </span>
+            )}
         </div>
-        <div className="flex gap-2">
+        {!isStreaming && (
+        <div className="flex items-center gap-2">
+            {exportError && <span className="text-xs text-red-500 font-medium">{exportError}</span>}
             <button 
                 onClick={handleCopy}
                 className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-medium transition-colors"
@@ -85,7 +106,68 @@ const ArticleSection: React.FC<ArticleSectionProps> = ({ content, image, lang })
                 <Printer className="w-3.5 h-3.5" />
                 <span className="hidden sm:inline">{t.article.print}</span>
             </button>
+            {image && (
+            <div className="relative flex">
+                <button
+                    onClick={handleExportPdf}
+                    disabled={!!exporting}
+                    className="flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-l-lg bg-cyan-50 dark:bg-cyan-900/30 hover:bg-cyan-100 dark:hover:bg-cyan-900/50 text-cyan-700 dark:text-cyan-400 text-xs font-bold transition-colors border border-cyan-200 dark:border-cyan-500/20 disabled:opacity-50"
+                    title={t.pdf.download}
+                >
+                    {exporting === 'pdf' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileDown className="w-3.5 h-3.5" />}
+                    <span className="hidden sm:inline">{exporting === 'pdf' ? t.pdf.exporting : `${t.pdf.button} · ${t.pdf.sizes[paperSize]}`}</span>
+                </button>
+                <button
+                    onClick={() => setShowPaperSizes(prev => !prev)}
+                    disabled={!!exporting}
+                    className="px-1.5 rounded-r-lg bg-cyan-50 dark:bg-cyan-900/30 hover:bg-cyan-100 dark:hover:bg-cyan-900/50 text-cyan-700 dark:text-cyan-400 border border-l-0 border-cyan-200 dark:border-cyan-500/20 transition-colors disabled:opacity-50"
+                    title={t.pdf.paperSize}
+                >
+                    <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+                {showPaperSizes && (
+                    <div className="absolute top-full right-0 mt-2 w-40 p-3 z-20 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl shadow-2xl space-y-2 animate-in fade-in slide-in-from-top-2">
+                        <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.pdf.paperSize}</p>
+                        {PAPER_SIZES.map(size => (
+                            <label key={size} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                                <input
+                                    type="radio"
+                                    name="pdf-paper-size"
+                                    checked={paperSize === size}
+                                    onChange={() => { setPaperSize(size); setShowPaperSizes(false); }}
+                                    className="accent-cyan-600"
+                                />
+                                {t.pdf.sizes[size]}
+                            </label>
+                        ))}
+                    </div>
+                )}
+            </div>
+            )}
+            {image && (
+            <button
+                onClick={handleExportSlides}
+                disabled={!!exporting}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-amber-50 dark:bg-amber-900/30 hover:bg-amber-100 dark:hover:bg-amber-900/50 text-amber-700 dark:text-amber-400 text-xs font-bold transition-colors border border-amber-200 dark:border-amber-500/20 disabled:opacity-50"
+                title={t.slides.download}
+            >
+                {exporting === 'pptx' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Presentation className="w-3.5 h-3.5" />}
+                <span className="hidden sm:inline">{exporting === 'pptx' ? t.slides.exporting : t.slides.button}</span>
+            </button>
+            )}
+            {image && (
+            <button
+                onClick={handleExportBundle}
+                disabled={!!exporting}
+                className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-400 text-xs font-bold transition-colors disabled:opacity-50"
+                title={t.bundle.download}
+            >
+                {exporting === 'zip' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileArchive className="w-3.5 h-3.5" />}
+                <span className="hidden sm:inline">{exporting === 'zip' ? t.bundle.exporting : t.bundle.button}</span>
+            </button>
+            )}
         </div>
+        )}
       </div>
 
       {/* Content Area - Visible in Print */}
@@ -97,13 +179,62 @@ const ArticleSection: React.FC<ArticleSectionProps> = ({ content, image, lang })
          </div>
 
          {/* Image for Print */}
+         {image && (
          <div className="hidden print:block mb-8 break-inside-avoid">
             <img src={image.data} alt={image.prompt} className="w-full h-auto rounded-xl border border-gray-200" />
             <p className="text-xs text-center mt-2 italic text-gray-500">{image.prompt}</p>
          </div>
+         )}
+
+         {facts.length > 0 && (
+         <section className="mb-8 p-4 rounded-xl bg-cyan-50/60 dark:bg-cyan-950/20 border border-cyan-100 dark:border-cyan-500/10 break-inside-avoid">
+            <p className="flex items-center gap-2 mb-2 text-[10px] font-bold text-cyan-700 dark:text-cyan-400 uppercase tracking-wider">
+                <Lightbulb className="w-3.5 h-3.5" />
+                {t.article.facts}
+            </p>
+            <ul className="list-disc ml-5 space-y-1 text-sm text-slate-700 dark:text-slate-300 marker:text-cyan-500">
+                {facts.map((fact, i) => {
+                    const check = image?.factChecks?.find(c => c.fact === fact);
+                    return (
+                    <li key={i}>
+                        <span className={check?.verdict === 'contradicted' ? 'line-through decoration-red-400/70' : undefined}>{fact}</span>
+                        {renderCitation(getFactSources(citations || [], fact))}
+                        {check && (
+                        <span className="ml-2 inline-flex items-center gap-2">
+                            <FactCheckBadge check={check} lang={lang} />
+                            {check.verdict === 'contradicted' && <span className="text-[10px] text-red-500 dark:text-red-400 italic">{t.factCheck.excluded}</span>}
+                        </span>
+                        )}
+                        {!check && image?.factChecks && <span className="ml-2 text-[10px] text-slate-400 italic">{t.factCheck.unverified}</span>}
+                        {check?.note && <p className="text-xs text-slate-500 dark:text-slate-400 mt-0.5">{check.note}</p>}
+                    </li>
+                    );
+                })}
+            </ul>
+         </section>
+         )}
+
+         {toc.length >= MIN_TOC_ENTRIES && (
+         <nav className="print:hidden mb-8 p-4 rounded-xl bg-slate-50 dark:bg-slate-950/40 border border-slate-200 dark:border-white/5">
+            <p className="flex items-center gap-2 mb-2 text-[10px] font-bold text-slate-500 uppercase tracking-wider">
+                <ListTree className="w-3.5 h-3.5" />
+                {t.article.contents}
+            </p>
+            <ol className="space-y-1 text-sm">
+                {toc.map(entry => (
+                    <li key={entry.id} style={{ paddingLeft: `${entry.level - minTocLevel}rem` }}>
+                        <a href={`#${entry.id}`} className="text-slate-600 dark:text-slate-300 hover:text-cyan-600 dark:hover:text-cyan-400 transition-colors">
+                            {entry.text}
+                        </a>
+                    </li>
+                ))}
+            </ol>
+         </nav>
+         )}
 
          <div className="prose dark:prose-invert max-w-none print:prose-black">
-            {renderContent(content)}
+            <MarkdownContent blocks={blocks} anchorLabel={t.article.anchor} renderCitation={renderCitation} />
+            {isStreaming && <span className="inline-block w-2 h-4 align-middle bg-cyan-500 animate-pulse" />}
          </div>
 
          <div className="hidden print:flex justify-between mt-12 pt-8 border-t border-gray-200 text-[10px] text-gray-400 font-mono uppercase tracking-widest">
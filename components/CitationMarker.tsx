@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { SearchResultItem, UiLanguage } from '../types';
+import { translations } from '../translations';
+import { sourceHref } from '../utils/sourceDocuments';
+import { ExternalLink } from 'lucide-react';
+
+interface CitationMarkerProps {
+  sources: number[]; // Indices into `results`
+  results: SearchResultItem[];
+  lang: UiLanguage;
+}
+
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname.replace('www.', '');
+  } catch {
+    return url;
+  }
+};
+
+// Superscript [n] links to the source cards; hovering or focusing one previews its source.
+// Built from spans only, since markers sit inside paragraphs and list items.
+const CitationMarker: React.FC<CitationMarkerProps> = ({ sources, results, lang }) => {
+  const t = translations[lang];
+  const cited = sources.filter(index => results[index]);
+  if (cited.length === 0) return null;
+
+  return (
+    <sup className="ml-0.5 not-italic font-normal whitespace-nowrap">
+      {cited.map(index => {
+        const result = results[index];
+        const href = sourceHref(result);
+        return (
+          <span key={index} className="relative group/citation">
+            <a
+              href={`#source-${index + 1}`}
+              aria-label={t.citations.source.replace('{n}', String(index + 1))}
+              className="px-0.5 text-[0.7em] font-bold text-cyan-600 dark:text-cyan-400 hover:underline focus:outline-none focus-visible:ring-2 focus-visible:ring-cyan-500 rounded"
+            >
+              [{index + 1}]
+            </a>
+            <span
+              role="tooltip"
+              className="print:hidden invisible opacity-0 group-hover/citation:visible group-hover/citation:opacity-100 group-focus-within/citation:visible group-focus-within/citation:opacity-100 transition-opacity absolute z-30 bottom-full left-1/2 -translate-x-1/2 mb-2 w-64 p-3 text-left text-xs leading-snug bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl shadow-2xl"
+            >
+              <span className="block font-bold text-slate-800 dark:text-slate-100 line-clamp-2">{result.title}</span>
+              <span className="block mt-1 font-mono text-[10px] text-slate-500 truncate">{result.document ? t.documents.uploaded : hostnameOf(result.url)}</span>
+              {href && (
+              <a
+                href={href}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-2 inline-flex items-center gap-1 font-bold text-cyan-600 dark:text-cyan-400 hover:underline"
+              >
+                <ExternalLink className="w-3 h-3" />
+                {t.citations.open}
+              </a>
+              )}
+            </span>
+          </span>
+        );
+      })}
+    </sup>
+  );
+};
+
+export default CitationMarker;
@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { GeneratedImage, UiLanguage } from '../types';
+import { translations } from '../translations';
+import ZoomControls, { useZoom } from './ZoomControls';
+import { X, Columns, SplitSquareHorizontal, ArrowLeftRight } from 'lucide-react';
+
+interface CompareViewProps {
+  images: GeneratedImage[];
+  leftId: string;
+  rightId: string;
+  lang: UiLanguage;
+  onClose: () => void;
+}
+
+type CompareMode = 'side' | 'slider';
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+const labelFor = (img: GeneratedImage) => img.editInstruction || img.prompt;
+
+const CompareView: React.FC<CompareViewProps> = ({ images, leftId, rightId, lang, onClose }) => {
+  const [mode, setMode] = useState<CompareMode>('side');
+  const [selectedLeftId, setSelectedLeftId] = useState(leftId);
+  const [selectedRightId, setSelectedRightId] = useState(rightId);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [sliderPosition, setSliderPosition] = useState(50);
+  const { zoomLevel, zoomIn, zoomOut, resetZoom } = useZoom();
+  const panStart = useRef<{ pointerX: number; pointerY: number; origin: Offset } | null>(null);
+  const sliderRef = useRef<HTMLDivElement>(null);
+  const isDraggingDivider = useRef(false);
+  const t = translations[lang];
+
+  const left = images.find(img => img.id === selectedLeftId);
+  const right = images.find(img => img.id === selectedRightId);
+  if (!left || !right) return null;
+
+  // Both panes share one transform so zoom and pan stay in sync
+  const transformStyle: React.CSSProperties = {
+    transform: `translate(${offset.x}px, ${offset.y}px) scale(${zoomLevel})`,
+    transition: panStart.current ? 'none' : 'transform 0.2s ease-out'
+  };
+
+  const handleReset = () => {
+    resetZoom();
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handleSwap = () => {
+    setSelectedLeftId(selectedRightId);
+    setSelectedRightId(selectedLeftId);
+  };
+
+  const updateSlider = (clientX: number) => {
+    const rect = sliderRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const position = ((clientX - rect.left) / rect.width) * 100;
+    setSliderPosition(Math.min(100, Math.max(0, position)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (isDraggingDivider.current) return;
+    panStart.current = { pointerX: e.clientX, pointerY: e.clientY, origin: offset };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (isDraggingDivider.current) {
+      updateSlider(e.clientX);
+      return;
+    }
+    if (!panStart.current) return;
+    setOffset({
+      x: panStart.current.origin.x + e.clientX - panStart.current.pointerX,
+      y: panStart.current.origin.y + e.clientY - panStart.current.pointerY
+    });
+  };
+
+  const handlePointerUp = () => {
+    panStart.current = null;
+    isDraggingDivider.current = false;
+  };
+
+  const panHandlers = {
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerCancel: handlePointerUp
+  };
+
+  const renderPicker = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="max-w-[14rem] bg-white/80 dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-lg px-2 py-1.5 text-xs font-medium text-slate-800 dark:text-slate-200 outline-none focus:ring-2 focus:ring-cyan-500 [&>option]:bg-white [&>option]:text-slate-900 dark:[&>option]:bg-slate-900 dark:[&>option]:text-slate-100"
+    >
+      {images.map(img => (
+        <option key={img.id} value={img.id}>
+          {labelFor(img).slice(0, 60)} · {new Date(img.timestamp).toLocaleTimeString()}
+        </option>
+      ))}
+    </select>
+  );
+
+  const modeButtonClass = (active: boolean) =>
+    `p-2 rounded-md transition-colors ${active ? 'bg-cyan-600 text-white' : 'text-slate-800 dark:text-slate-200 hover:bg-black/10 dark:hover:bg-white/10'}`;
+
+  return (
+    <div className="fixed inset-0 z-[120] bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300 print:hidden">
+      {/* Toolbar */}
+      <div className="p-4 flex flex-wrap justify-between items-center gap-3 z-50">
+        <div className="flex flex-wrap items-center gap-2">
+          <ZoomControls zoomLevel={zoomLevel} onZoomIn={zoomIn} onZoomOut={zoomOut} onReset={handleReset} />
+          <div className="flex gap-1 bg-white/10 backdrop-blur-md p-1 rounded-lg border border-black/5 dark:border-white/10">
+            <button onClick={() => setMode('side')} className={modeButtonClass(mode === 'side')} title={t.compare.sideBySide}>
+              <Columns className="w-5 h-5" />
+            </button>
+            <button onClick={() => setMode('slider')} className={modeButtonClass(mode === 'slider')} title={t.compare.slider}>
+              <SplitSquareHorizontal className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {renderPicker(selectedLeftId, setSelectedLeftId)}
+          <button onClick={handleSwap} className="p-2 rounded-md text-slate-700 dark:text-slate-300 hover:bg-black/10 dark:hover:bg-white/10 transition-colors" title={t.compare.swap}>
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+          {renderPicker(selectedRightId, setSelectedRightId)}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="p-3 bg-slate-200 dark:bg-slate-800 text-slate-900 dark:text-white rounded-full hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors shadow-lg"
+        >
+          <X className="w-6 h-6" />
+        </button>
+      </div>
+
+      {mode === 'side' ? (
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-2 gap-4 p-4 pt-0 min-h-0">
+          {[left, right].map((img, index) => (
+            <div key={`${index}-${img.id}`} className="flex flex-col min-h-0">
+              <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 truncate">
+                {index === 0 ? t.compare.before : t.compare.after}: <span className="normal-case font-medium">{labelFor(img)}</span>
+              </p>
+              <div
+                {...panHandlers}
+                className="flex-1 overflow-hidden flex items-center justify-center rounded-xl border border-slate-200 dark:border-white/10 bg-checkered cursor-grab active:cursor-grabbing touch-none select-none"
+              >
+                <img src={img.data} alt={img.prompt} draggable={false} style={transformStyle} className="max-w-full max-h-full object-contain origin-center" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 p-4 pt-0 min-h-0 flex flex-col">
+          <div className="flex justify-between text-[10px] font-bold text-slate-500 uppercase tracking-wider mb-2 gap-4">
+            <span className="truncate">{t.compare.before}: <span className="normal-case font-medium">{labelFor(left)}</span></span>
+            <span className="truncate text-right">{t.compare.after}: <span className="normal-case font-medium">{labelFor(right)}</span></span>
+          </div>
+          <div
+            ref={sliderRef}
+            {...panHandlers}
+            className="relative flex-1 overflow-hidden rounded-xl border border-slate-200 dark:border-white/10 bg-checkered cursor-grab active:cursor-grabbing touch-none select-none"
+          >
+            <div className="absolute inset-0 flex items-center justify-center">
+              <img src={right.data} alt={right.prompt} draggable={false} style={transformStyle} className="max-w-full max-h-full object-contain origin-center" />
+            </div>
+            <div className="absolute inset-0 flex items-center justify-center" style={{ clipPath: `inset(0 ${100 - sliderPosition}% 0 0)` }}>
+              <img src={left.data} alt={left.prompt} draggable={false} style={transformStyle} className="max-w-full max-h-full object-contain origin-center" />
+            </div>
+            {/* Divider handle */}
+            <div
+              className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-cyan-500 shadow-[0_0_10px_rgba(6,182,212,0.8)] cursor-ew-resize"
+              style={{ left: `${sliderPosition}%` }}
+              onPointerDown={() => { isDraggingDivider.current = true; }}
+            >
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-9 h-9 rounded-full bg-cyan-600 text-white flex items-center justify-center shadow-lg border-2 border-white">
+                <ArrowLeftRight className="w-4 h-4" />
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareView;
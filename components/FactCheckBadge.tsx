@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { FactCheck, FactVerdict, UiLanguage } from '../types';
+import { translations } from '../translations';
+import { ShieldCheck, ShieldQuestion, ShieldX } from 'lucide-react';
+
+interface FactCheckBadgeProps {
+  check: FactCheck;
+  lang: UiLanguage;
+}
+
+const VERDICT_STYLES: Record<FactVerdict, { icon: typeof ShieldCheck; className: string }> = {
+  supported: { icon: ShieldCheck, className: 'bg-emerald-50 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-500/20' },
+  unsupported: { icon: ShieldQuestion, className: 'bg-amber-50 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 border-amber-200 dark:border-amber-500/20' },
+  contradicted: { icon: ShieldX, className: 'bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-400 border-red-200 dark:border-red-500/20' }
+};
+
+// Verdict and confidence of one fact; the model's note shows on hover
+const FactCheckBadge: React.FC<FactCheckBadgeProps> = ({ check, lang }) => {
+  const t = translations[lang];
+  const { icon: Icon, className } = VERDICT_STYLES[check.verdict];
+  const confidence = t.factCheck.confidence.replace('{n}', String(Math.round(check.confidence * 100)));
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded-md border text-[10px] font-bold not-italic font-sans uppercase tracking-wider align-middle whitespace-nowrap ${className}`}
+      title={check.note ? `${confidence} · ${check.note}` : confidence}
+    >
+      <Icon className="w-3 h-3" />
+      {t.factCheck.verdicts[check.verdict]}
+      <span className="font-mono font-medium opacity-75">{Math.round(check.confidence * 100)}%</span>
+    </span>
+  );
+};
+
+export default FactCheckBadge;
@@ -4,21 +4,39 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState } from 'react';
-import { GeneratedImage, UiLanguage } from '../types';
+import { GeneratedImage, UiLanguage, LegibilityFix, OverlayItem } from '../types';
 import { translations } from '../translations';
-import { Download, Sparkles, Edit3, Maximize2, X, ZoomIn, ZoomOut, RefreshCcw } from 'lucide-react';
+import { LEGIBILITY_FIXES } from '../services/geminiService';
+import ZoomControls, { useZoom } from './ZoomControls';
+import MaskEditor from './MaskEditor';
+import OverlayLayer from './OverlayLayer';
+import OverlayEditor from './OverlayEditor';
+import { flattenOverlay } from '../utils/overlay';
+import { dataUrlToBlob } from '../utils/dataUrl';
+import { downloadBlob } from '../utils/download';
+import { Download, Sparkles, Edit3, Maximize2, X, Columns, SpellCheck, ChevronDown, Brush, Type } from 'lucide-react';
 
 interface InfographicProps {
   image: GeneratedImage;
   onEdit: (prompt: string) => void;
   isEditing: boolean;
   lang: UiLanguage;
+  onCompare?: () => void;
+  onFixLegibility?: (fixes: LegibilityFix[]) => void;
+  onEditRegion?: (mask: string, prompt: string) => void;
+  onSaveOverlay?: (items: OverlayItem[]) => void;
 }
 
-const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lang }) => {
+const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lang, onCompare, onFixLegibility, onEditRegion, onSaveOverlay }) => {
   const [editPrompt, setEditPrompt] = useState('');
+  const [fixes, setFixes] = useState<LegibilityFix[]>(LEGIBILITY_FIXES);
+  const [showFixOptions, setShowFixOptions] = useState(false);
+  const [isMasking, setIsMasking] = useState(false);
+  const [showOverlayEditor, setShowOverlayEditor] = useState(false);
+  const [naturalSize, setNaturalSize] = useState({ width: 0, height: 0 });
+  const overlay = image.overlay || [];
   const [isFullscreen, setIsFullscreen] = useState(false);
-  const [zoomLevel, setZoomLevel] = useState(1);
+  const { zoomLevel, zoomIn, zoomOut, resetZoom } = useZoom();
   const t = translations[lang];
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -28,15 +46,43 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lan
     setEditPrompt('');
   };
 
-  const handleZoomIn = () => setZoomLevel(prev => Math.min(prev + 0.5, 4));
-  const handleZoomOut = () => setZoomLevel(prev => Math.max(prev - 0.5, 0.5));
-  const handleResetZoom = () => setZoomLevel(1);
+  const toggleFix = (fix: LegibilityFix) => {
+    setFixes(prev => (prev.includes(fix) ? prev.filter(f => f !== fix) : [...prev, fix]));
+  };
+
+  const handleFixLegibility = () => {
+    if (!onFixLegibility || fixes.length === 0) return;
+    setShowFixOptions(false);
+    onFixLegibility(fixes);
+  };
 
   const handleCloseFullscreen = () => {
     setIsFullscreen(false);
-    setZoomLevel(1);
+    setIsMasking(false);
+    resetZoom();
   }
 
+  // Labels live as vector data until download, where they are burned into the PNG
+  const handleDownload = async () => {
+    try {
+      const data = overlay.length > 0 ? await flattenOverlay(image.data, overlay) : image.data;
+      downloadBlob(dataUrlToBlob(data), `infographic-${image.id}.png`);
+    } catch (err) {
+      console.error('Failed to prepare download', err);
+    }
+  };
+
+  const handleSaveOverlay = (items: OverlayItem[]) => {
+    onSaveOverlay?.(items);
+    setShowOverlayEditor(false);
+  };
+
+  const handleApplyRegion = (mask: string, prompt: string) => {
+    if (!onEditRegion) return;
+    handleCloseFullscreen();
+    onEditRegion(mask, prompt);
+  };
+
   return (
     <div className="infographic-display flex flex-col items-center w-full max-w-6xl mx-auto animate-in fade-in zoom-in duration-700 mt-8 print:hidden">
       
@@ -52,8 +98,12 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lan
           src={image.data} 
           alt={image.prompt} 
           onClick={() => setIsFullscreen(true)}
-          className="w-full h-auto object-contain max-h-[80vh] bg-checkered relative z-10 cursor-zoom-in"
+          onLoad={(e) => setNaturalSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+          className="block w-full h-auto object-contain max-h-[80vh] bg-checkered relative z-10 cursor-zoom-in"
         />
+        {overlay.length > 0 && (
+          <OverlayLayer items={overlay} width={naturalSize.width} height={naturalSize.height} className="z-[15]" />
+        )}
         
         {/* Hover Overlay for Quick Actions */}
         <div className="absolute top-6 right-6 flex gap-2 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity z-30">
@@ -64,14 +114,31 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lan
           >
             <Maximize2 className="w-5 h-5" />
           </button>
-          <a 
-            href={image.data} 
-            download={`infographic-${image.id}.png`}
+          {onCompare && (
+            <button 
+              onClick={onCompare}
+              className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
+              title={t.infographic.compare}
+            >
+              <Columns className="w-5 h-5" />
+            </button>
+          )}
+          {onSaveOverlay && (
+            <button 
+              onClick={() => setShowOverlayEditor(true)}
+              className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
+              title={t.overlay.button}
+            >
+              <Type className="w-5 h-5" />
+            </button>
+          )}
+          <button 
+            onClick={handleDownload}
             className="bg-black/60 backdrop-blur-md text-white p-3 rounded-xl shadow-lg hover:bg-cyan-600 transition-colors border border-white/10 block"
             title={t.infographic.download}
           >
             <Download className="w-5 h-5" />
-          </a>
+          </button>
         </div>
       </div>
 
@@ -112,6 +179,43 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lan
                     </button>
                 </div>
             </form>
+
+            {onFixLegibility && (
+                <div className="relative w-full sm:w-auto flex">
+                    <button
+                        onClick={handleFixLegibility}
+                        disabled={isEditing || fixes.length === 0}
+                        className="flex-1 sm:flex-none flex items-center justify-center gap-2 pl-4 pr-3 py-3 sm:py-2.5 rounded-l-xl bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300 text-sm font-bold transition-colors border border-indigo-200 dark:border-indigo-500/20 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                    >
+                        <SpellCheck className="w-4 h-4" />
+                        <span>{t.legibility.button}</span>
+                    </button>
+                    <button
+                        onClick={() => setShowFixOptions(prev => !prev)}
+                        disabled={isEditing}
+                        className="px-2 rounded-r-xl bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 text-indigo-600 dark:text-indigo-300 border border-l-0 border-indigo-200 dark:border-indigo-500/20 transition-colors disabled:opacity-50"
+                        title={t.legibility.options}
+                    >
+                        <ChevronDown className="w-4 h-4" />
+                    </button>
+                    {showFixOptions && (
+                        <div className="absolute bottom-full right-0 mb-2 w-56 p-3 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl shadow-2xl space-y-2 animate-in fade-in slide-in-from-bottom-2">
+                            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.legibility.options}</p>
+                            {LEGIBILITY_FIXES.map(fix => (
+                                <label key={fix} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={fixes.includes(fix)}
+                                        onChange={() => toggleFix(fix)}
+                                        className="accent-indigo-600"
+                                    />
+                                    {t.legibility.fixes[fix]}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
         </div>
       </div>
       
@@ -119,23 +223,37 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lan
         <p className="text-xs text-slate-500 dark:text-slate-500 font-mono max-w-xl mx-auto truncate opacity-60">
             {t.infographic.promptLabel}: {image.prompt}
         </p>
+        {image.referenceImages && image.referenceImages.length > 0 && (
+            <div className="flex items-center justify-center gap-2 print:hidden">
+                <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.references.used}</span>
+                {image.referenceImages.map((reference, i) => (
+                    <img key={i} src={reference} alt={`${t.references.label} ${i + 1}`} className="h-10 w-10 object-cover rounded-md border border-slate-200 dark:border-white/10" />
+                ))}
+            </div>
+        )}
       </div>
 
+      {showOverlayEditor && (
+        <OverlayEditor image={image} lang={lang} onSave={handleSaveOverlay} onClose={() => setShowOverlayEditor(false)} />
+      )}
+
       {/* Fullscreen Modal */}
       {isFullscreen && (
         <div className="fixed inset-0 z-[100] bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300">
             {/* Toolbar */}
             <div className="absolute top-0 left-0 right-0 p-4 flex justify-between items-center z-50 pointer-events-none">
-                <div className="flex gap-2 pointer-events-auto bg-white/10 backdrop-blur-md p-1 rounded-lg border border-black/5 dark:border-white/10">
-                    <button onClick={handleZoomOut} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Zoom Out">
-                        <ZoomOut className="w-5 h-5" />
-                    </button>
-                    <button onClick={handleResetZoom} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Reset Zoom">
-                        <span className="text-xs font-bold">{Math.round(zoomLevel * 100)}%</span>
-                    </button>
-                    <button onClick={handleZoomIn} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Zoom In">
-                        <ZoomIn className="w-5 h-5" />
-                    </button>
+                <div className="flex gap-2">
+                    <ZoomControls zoomLevel={zoomLevel} onZoomIn={zoomIn} onZoomOut={zoomOut} onReset={resetZoom} />
+                    {onEditRegion && (
+                        <button
+                            onClick={() => setIsMasking(prev => !prev)}
+                            disabled={isEditing}
+                            className={`pointer-events-auto flex items-center gap-2 px-3 rounded-lg border text-sm font-bold transition-colors disabled:opacity-50 ${isMasking ? 'bg-cyan-600 text-white border-cyan-500' : 'bg-white/10 backdrop-blur-md border-black/5 dark:border-white/10 text-slate-800 dark:text-slate-200 hover:bg-black/10 dark:hover:bg-white/10'}`}
+                        >
+                            <Brush className="w-4 h-4" />
+                            <span className="hidden sm:inline">{t.region.button}</span>
+                        </button>
+                    )}
                 </div>
 
                 <button 
@@ -146,17 +264,29 @@ const Infographic: React.FC<InfographicProps> = ({ image, onEdit, isEditing, lan
                 </button>
             </div>
 
+            {isMasking ? (
+                <MaskEditor src={image.data} zoomLevel={zoomLevel} lang={lang} onApply={handleApplyRegion} />
+            ) : (
             <div className="flex-1 overflow-auto flex items-center justify-center p-4 sm:p-8">
-                <img 
-                    src={image.data} 
-                    alt={image.prompt}
+                {/* Image and labels share one box and scale together, so the overlay stays aligned */}
+                <div
                     style={{ 
                         transform: `scale(${zoomLevel})`,
                         transition: 'transform 0.2s ease-out'
                     }}
-                    className="max-w-full max-h-full object-contain shadow-2xl rounded-lg origin-center"
-                />
+                    className="relative w-full h-full origin-center"
+                >
+                    <img 
+                        src={image.data} 
+                        alt={image.prompt}
+                        className="absolute inset-0 w-full h-full object-contain drop-shadow-2xl"
+                    />
+                    {overlay.length > 0 && (
+                        <OverlayLayer items={overlay} width={naturalSize.width} height={naturalSize.height} />
+                    )}
+                </div>
             </div>
+            )}
         </div>
       )}
     </div>
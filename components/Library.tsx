@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo, useRef, useState } from 'react';
+import { GeneratedImage, UiLanguage, ComplexityLevel, VisualStyle, Language } from '../types';
+import { translations, languageNames, complexityLevels, visualStyles, getLevelLabel, getStyleLabel } from '../translations';
+import { exportLibrary } from '../services/storageService';
+import { importLibraryFiles } from '../services/libraryImport';
+import { downloadBlob, dateStamp } from '../utils/download';
+import { Library as LibraryIcon, Search, X, Trash2, Download, ArrowUpDown, CheckSquare, Square, FilterX, Upload, Loader2 } from 'lucide-react';
+
+interface LibraryProps {
+  images: GeneratedImage[];
+  lang: UiLanguage;
+  onOpen: (image: GeneratedImage) => void;
+  onDelete: (ids: string[]) => void;
+  onImport: (images: GeneratedImage[]) => void;
+  onClose: () => void;
+}
+
+type SortOrder = 'newest' | 'oldest';
+
+const selectClassName = "bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2 text-sm font-medium text-slate-800 dark:text-slate-200 focus:ring-2 focus:ring-cyan-500 outline-none [&>option]:bg-white [&>option]:text-slate-900 dark:[&>option]:bg-slate-900 dark:[&>option]:text-slate-100";
+
+const Library: React.FC<LibraryProps> = ({ images, lang, onOpen, onDelete, onImport, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [levelFilter, setLevelFilter] = useState<ComplexityLevel | ''>('');
+  const [styleFilter, setStyleFilter] = useState<VisualStyle | ''>('');
+  const [languageFilter, setLanguageFilter] = useState<Language | ''>('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isImporting, setIsImporting] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const t = translations[lang];
+
+  const visibleImages = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return images
+      .filter(img => {
+        if (levelFilter && img.level !== levelFilter) return false;
+        if (styleFilter && img.style !== styleFilter) return false;
+        if (languageFilter && img.language !== languageFilter) return false;
+        if (!needle) return true;
+        // Edited versions carry the instruction as their prompt, so the image prompt and edit text are searched too
+        return [img.prompt, img.imagePrompt, img.editInstruction, img.articleContent]
+          .some(text => (text || '').toLowerCase().includes(needle));
+      })
+      .sort((a, b) => sortOrder === 'newest' ? b.timestamp - a.timestamp : a.timestamp - b.timestamp);
+  }, [images, query, levelFilter, styleFilter, languageFilter, sortOrder]);
+
+  const hasFilters = query || levelFilter || styleFilter || languageFilter;
+  const allVisibleSelected = visibleImages.length > 0 && visibleImages.every(img => selectedIds.has(img.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleImages.map(img => img.id)));
+  };
+
+  const resetFilters = () => {
+    setQuery('');
+    setLevelFilter('');
+    setStyleFilter('');
+    setLanguageFilter('');
+  };
+
+  const handleBulkDelete = () => {
+    if (selectedIds.size === 0) return;
+    if (!window.confirm(t.library.deleteConfirm.replace('{count}', String(selectedIds.size)))) return;
+    onDelete(Array.from(selectedIds));
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkExport = () => {
+    const selected = images.filter(img => selectedIds.has(img.id));
+    if (selected.length === 0) return;
+    downloadBlob(exportLibrary(selected), `infogenius-library-${dateStamp()}.json`);
+  };
+
+  const handleImportFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = ''; // Allow picking the same file again
+    if (files.length === 0) return;
+    setIsImporting(true);
+    setImportMessage(null);
+    try {
+      const result = await importLibraryFiles(files, images);
+      if (result.images.length > 0) onImport(result.images);
+      setImportMessage(t.library.importResult
+        .replace('{added}', String(result.images.length))
+        .replace('{duplicates}', String(result.duplicates))
+        .replace('{invalid}', String(result.invalid)));
+    } catch (err) {
+      // e.g. hashing the library needs crypto.subtle, which non-secure origins do not have
+      console.error('Library import failed', err);
+      setImportMessage(t.library.importFailed);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-50/95 dark:bg-slate-950/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300 print:hidden">
+      {/* Header */}
+      <div className="border-b border-slate-200 dark:border-white/10 px-4 sm:px-8 py-4 flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-cyan-600 dark:text-cyan-400 shadow-sm">
+            <LibraryIcon className="w-5 h-5" />
+          </div>
+          <div>
+            <h2 className="text-lg font-display font-bold text-slate-900 dark:text-white leading-tight">{t.library.title}</h2>
+            <p className="text-xs text-slate-500 dark:text-slate-400">
+              {t.library.count.replace('{shown}', String(visibleImages.length)).replace('{total}', String(images.length))}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-3 bg-slate-200 dark:bg-slate-800 text-slate-900 dark:text-white rounded-full hover:bg-slate-300 dark:hover:bg-slate-700 transition-colors shadow-lg"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Filters */}
+      <div className="px-4 sm:px-8 py-4 flex flex-col lg:flex-row gap-2 border-b border-slate-200 dark:border-white/10">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t.library.searchPlaceholder}
+            className="w-full pl-9 pr-3 py-2 bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 rounded-xl text-sm text-slate-900 dark:text-white placeholder:text-slate-400 focus:ring-2 focus:ring-cyan-500 outline-none"
+          />
+        </div>
+        <select value={levelFilter} onChange={(e) => setLevelFilter(e.target.value as ComplexityLevel | '')} className={selectClassName}>
+          <option value="">{t.library.allLevels}</option>
+          {complexityLevels.map(level => <option key={level} value={level}>{getLevelLabel(lang, level)}</option>)}
+        </select>
+        <select value={styleFilter} onChange={(e) => setStyleFilter(e.target.value as VisualStyle | '')} className={selectClassName}>
+          <option value="">{t.library.allStyles}</option>
+          {visualStyles.map(style => <option key={style} value={style}>{getStyleLabel(lang, style)}</option>)}
+        </select>
+        <select value={languageFilter} onChange={(e) => setLanguageFilter(e.target.value as Language | '')} className={selectClassName}>
+          <option value="">{t.library.allLanguages}</option>
+          {(Object.keys(languageNames) as Language[]).map(l => <option key={l} value={l}>{languageNames[l]}</option>)}
+        </select>
+        <button
+          onClick={() => setSortOrder(sortOrder === 'newest' ? 'oldest' : 'newest')}
+          className="flex items-center justify-center gap-2 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 text-sm font-medium transition-colors border border-slate-200 dark:border-white/10 whitespace-nowrap"
+        >
+          <ArrowUpDown className="w-4 h-4" />
+          <span>{sortOrder === 'newest' ? t.library.newest : t.library.oldest}</span>
+        </button>
+        {hasFilters && (
+          <button
+            onClick={resetFilters}
+            className="flex items-center justify-center gap-2 px-3 py-2 rounded-xl text-slate-500 hover:text-cyan-600 dark:hover:text-cyan-400 text-sm font-medium transition-colors"
+            title={t.library.resetFilters}
+          >
+            <FilterX className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {/* Bulk Actions */}
+      <div className="px-4 sm:px-8 py-3 flex items-center justify-between gap-2">
+        <button
+          onClick={toggleSelectAll}
+          disabled={visibleImages.length === 0}
+          className="flex items-center gap-2 text-xs font-bold text-slate-600 dark:text-slate-300 hover:text-cyan-600 dark:hover:text-cyan-400 transition-colors disabled:opacity-50"
+        >
+          {allVisibleSelected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+          <span>{t.library.selectAll}</span>
+          {selectedIds.size > 0 && <span className="text-slate-400 font-normal">({selectedIds.size})</span>}
+        </button>
+        <div className="flex items-center gap-2">
+          {importMessage && <span className="hidden md:inline text-xs text-slate-500 dark:text-slate-400">{importMessage}</span>}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.zip,application/json,application/zip"
+            multiple
+            onChange={handleImportFiles}
+            className="hidden"
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-cyan-50 dark:bg-cyan-900/30 hover:bg-cyan-100 dark:hover:bg-cyan-900/50 text-cyan-700 dark:text-cyan-400 text-xs font-bold transition-colors border border-cyan-200 dark:border-cyan-500/20 disabled:opacity-40"
+            title={t.library.importHint}
+          >
+            {isImporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+            <span>{isImporting ? t.library.importing : t.library.importFiles}</span>
+          </button>
+          <button
+            onClick={handleBulkExport}
+            disabled={selectedIds.size === 0}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 dark:hover:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400 text-xs font-bold transition-colors border border-indigo-200 dark:border-indigo-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download className="w-3.5 h-3.5" />
+            <span>{t.library.exportSelected}</span>
+          </button>
+          <button
+            onClick={handleBulkDelete}
+            disabled={selectedIds.size === 0}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-red-50 dark:bg-red-900/30 hover:bg-red-100 dark:hover:bg-red-900/50 text-red-600 dark:text-red-400 text-xs font-bold transition-colors border border-red-200 dark:border-red-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            <span>{t.library.deleteSelected}</span>
+          </button>
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="flex-1 overflow-y-auto px-4 sm:px-8 pb-8">
+        {visibleImages.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-sm text-slate-500 dark:text-slate-400 italic">
+            {t.library.empty}
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 xl:grid-cols-5 gap-4">
+            {visibleImages.map(img => {
+              const isSelected = selectedIds.has(img.id);
+              return (
+                <div
+                  key={img.id}
+                  className={`group relative rounded-2xl overflow-hidden border transition-all shadow-lg bg-white dark:bg-slate-900/50 ${isSelected ? 'border-cyan-500 ring-2 ring-cyan-500/40' : 'border-slate-200 dark:border-white/10 hover:border-cyan-500/50'}`}
+                >
+                  <button
+                    onClick={() => toggleSelected(img.id)}
+                    className="absolute top-2 left-2 z-10 p-1 rounded-md bg-black/50 text-white hover:bg-cyan-600 transition-colors"
+                  >
+                    {isSelected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+                  </button>
+                  <img
+                    src={img.data}
+                    alt={img.prompt}
+                    onClick={() => onOpen(img)}
+                    className="w-full aspect-video object-cover cursor-pointer opacity-90 group-hover:opacity-100 transition-opacity"
+                  />
+                  <div className="p-3 space-y-2">
+                    <p className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate font-display" title={img.prompt}>{img.prompt}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {img.level && <span className="text-[9px] uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-cyan-100 dark:bg-cyan-900/60 text-cyan-700 dark:text-cyan-100">{getLevelLabel(lang, img.level)}</span>}
+                      {img.style && <span className="text-[9px] uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-purple-100 dark:bg-purple-900/60 text-purple-700 dark:text-purple-100">{getStyleLabel(lang, img.style)}</span>}
+                      {img.language && <span className="text-[9px] uppercase font-bold tracking-wide px-1.5 py-0.5 rounded-full bg-green-100 dark:bg-green-900/60 text-green-700 dark:text-green-100">{img.language}</span>}
+                    </div>
+                    <p className="text-[10px] text-slate-400 font-mono">{new Date(img.timestamp).toLocaleString()}</p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Library;
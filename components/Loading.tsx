@@ -3,20 +3,24 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useEffect, useState } from 'react';
-import { Loader2, BrainCircuit, BookOpen, Atom, Lightbulb, ScrollText, Database, Dna, Microscope, Globe, Compass } from 'lucide-react';
-import { UiLanguage } from '../types';
+import { Loader2, X, BrainCircuit, BookOpen, Atom, Lightbulb, ScrollText, Database, Dna, Microscope, Globe, Compass } from 'lucide-react';
+import { FactCheck, UiLanguage } from '../types';
 import { translations } from '../translations';
+import FactCheckBadge from './FactCheckBadge';
 
 interface LoadingProps {
   status: string;
   step: number;
   facts?: string[];
+  factChecks?: FactCheck[]; // Filled in once the fact-check pass is done
   lang: UiLanguage;
+  onCancel?: () => void;
 }
 
-const Loading: React.FC<LoadingProps> = ({ status, step, facts = [], lang }) => {
+const Loading: React.FC<LoadingProps> = ({ status, step, facts = [], factChecks = [], lang, onCancel }) => {
   const [currentFactIndex, setCurrentFactIndex] = useState(0);
   const t = translations[lang];
+  const currentCheck = factChecks.find(check => check.fact === facts[currentFactIndex]);
 
   useEffect(() => {
     if (facts.length > 0) {
@@ -123,6 +127,11 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [], lang }) =>
                 <p className="text-base md:text-xl text-slate-800 dark:text-slate-200 font-serif-display leading-relaxed italic">
                 "{facts[currentFactIndex]}"
                 </p>
+                {currentCheck && (
+                <div className="mt-3">
+                    <FactCheckBadge check={currentCheck} lang={lang} />
+                </div>
+                )}
             </div>
             ) : (
             <div className="flex items-center gap-2 text-slate-500 dark:text-slate-500 italic font-light text-sm md:text-base">
@@ -141,6 +150,16 @@ const Loading: React.FC<LoadingProps> = ({ status, step, facts = [], lang }) =>
                 <div className="absolute inset-0 bg-white/50 animate-[shimmer_1s_infinite]"></div>
             </div>
         </div>
+
+        {onCancel && (
+            <button
+                onClick={onCancel}
+                className="mt-5 flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-red-50 dark:hover:bg-red-900/30 text-slate-600 dark:text-slate-300 hover:text-red-600 dark:hover:text-red-400 text-xs font-bold uppercase tracking-wider transition-colors border border-slate-200 dark:border-white/10"
+            >
+                <X className="w-4 h-4" />
+                <span>{t.loading.cancel}</span>
+            </button>
+        )}
       </div>
 
       <style>{`
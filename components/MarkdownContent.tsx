@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { InlineSpan, MarkdownBlock, safeHref } from '../utils/markdown';
+import { Hash } from 'lucide-react';
+
+interface MarkdownContentProps {
+  blocks: MarkdownBlock[];
+  anchorLabel: string; // Accessible name of the link next to each heading
+  renderCitation?: (sources: number[]) => React.ReactNode; // Citation markers are dropped without it
+}
+
+type RenderOptions = Omit<MarkdownContentProps, 'blocks'>;
+
+const HEADING_CLASSES = [
+  'text-2xl md:text-3xl mb-4 mt-8 text-slate-900 dark:text-white border-b-2 border-slate-100 dark:border-white/10 pb-2',
+  'text-xl md:text-2xl mb-3 mt-6 text-slate-800 dark:text-slate-100',
+  'text-lg md:text-xl mb-2 mt-4 text-cyan-700 dark:text-cyan-400',
+  'text-base md:text-lg mb-2 mt-4 text-slate-800 dark:text-slate-100'
+];
+
+const ALIGN_CLASSES = { left: 'text-left', center: 'text-center', right: 'text-right' };
+
+// Everything is built as React elements, so nothing in the article is ever parsed as HTML
+const renderSpans = (spans: InlineSpan[], options: RenderOptions) => spans.map((span, i) => {
+  if (span.citations) return <React.Fragment key={i}>{options.renderCitation?.(span.citations)}</React.Fragment>;
+  let node: React.ReactNode = span.text;
+  if (span.code) node = <code className="px-1 py-0.5 rounded bg-slate-100 dark:bg-slate-800 font-mono text-[0.9em] text-cyan-700 dark:text-cyan-300">{node}</code>;
+  if (span.strike) node = <del>{node}</del>;
+  if (span.italic) node = <em>{node}</em>;
+  if (span.bold) node = <strong className="font-bold text-slate-900 dark:text-white">{node}</strong>;
+  const href = span.href && safeHref(span.href);
+  if (href) {
+    const external = !href.startsWith('#');
+    node = (
+      <a
+        href={href}
+        target={external ? '_blank' : undefined}
+        rel={external ? 'noopener noreferrer' : undefined}
+        className="text-indigo-600 dark:text-indigo-400 underline decoration-indigo-300 dark:decoration-indigo-500/50 hover:decoration-2"
+      >
+        {node}
+      </a>
+    );
+  }
+  return <React.Fragment key={i}>{node}</React.Fragment>;
+});
+
+const renderBlocks = (blocks: MarkdownBlock[], options: RenderOptions): React.ReactNode[] => blocks.map((block, i) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1' | 'h2' | 'h3' | 'h4' | 'h5' | 'h6';
+      return (
+        <Tag key={i} id={block.id} className={`group font-bold font-serif-display scroll-mt-24 ${HEADING_CLASSES[Math.min(block.level, HEADING_CLASSES.length) - 1]}`}>
+          {renderSpans(block.spans, options)}
+          <a href={`#${block.id}`} className="ml-2 inline-block align-middle opacity-0 group-hover:opacity-100 text-slate-300 hover:text-cyan-500 transition-opacity print:hidden" aria-label={options.anchorLabel}>
+            <Hash className="w-4 h-4" />
+          </a>
+        </Tag>
+      );
+    }
+    case 'paragraph':
+      return <p key={i} className="mb-3 text-slate-700 dark:text-slate-300 leading-relaxed text-justify">{renderSpans(block.spans, options)}</p>;
+    case 'list': {
+      const items = block.items.map((item, j) => (
+        <li key={j} className="mb-2 text-slate-700 dark:text-slate-300 marker:text-cyan-500">
+          {renderSpans(item.spans, options)}
+          {item.children.length > 0 && <div className="mt-2">{renderBlocks(item.children, options)}</div>}
+        </li>
+      ));
+      return block.ordered
+        ? <ol key={i} start={block.start} className="list-decimal ml-6 mb-3">{items}</ol>
+        : <ul key={i} className="list-disc ml-6 mb-3">{items}</ul>;
+    }
+    case 'code':
+      return (
+        <pre key={i} className="mb-4 p-4 rounded-xl bg-slate-100 dark:bg-slate-950/60 border border-slate-200 dark:border-white/5 overflow-x-auto text-sm font-mono text-slate-800 dark:text-slate-200">
+          <code>{block.text}</code>
+        </pre>
+      );
+    case 'blockquote':
+      return (
+        <blockquote key={i} className="my-4 pl-4 border-l-4 border-cyan-500 italic text-slate-600 dark:text-slate-400">
+          {renderBlocks(block.blocks, options)}
+        </blockquote>
+      );
+    case 'table':
+      return (
+        <div key={i} className="mb-4 overflow-x-auto">
+          <table className="w-full text-sm border-collapse">
+            <thead>
+              <tr>
+                {block.header.map((cell, col) => (
+                  <th key={col} className={`px-3 py-2 border-b-2 border-slate-200 dark:border-white/10 font-bold text-slate-900 dark:text-white ${ALIGN_CLASSES[block.align[col] || 'left']}`}>
+                    {renderSpans(cell, options)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="even:bg-slate-50 dark:even:bg-white/5">
+                  {row.map((cell, col) => (
+                    <td key={col} className={`px-3 py-2 border-b border-slate-100 dark:border-white/5 text-slate-700 dark:text-slate-300 ${ALIGN_CLASSES[block.align[col] || 'left']}`}>
+                      {renderSpans(cell, options)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'rule':
+      return <hr key={i} className="my-6 border-slate-200 dark:border-white/10" />;
+  }
+});
+
+const MarkdownContent: React.FC<MarkdownContentProps> = ({ blocks, anchorLabel, renderCitation }) => {
+  return <>{renderBlocks(blocks, { anchorLabel, renderCitation })}</>;
+};
+
+export default MarkdownContent;
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { UiLanguage } from '../types';
+import { translations } from '../translations';
+import { Brush, SquareDashed, Eraser, Sparkles } from 'lucide-react';
+
+type MaskTool = 'brush' | 'rect';
+
+interface MaskEditorProps {
+  src: string;
+  zoomLevel: number;
+  lang: UiLanguage;
+  onApply: (mask: string, prompt: string) => void;
+}
+
+// Painted in a solid color; only the alpha channel matters for the exported mask
+const MASK_COLOR = '#06b6d4';
+
+const MaskEditor: React.FC<MaskEditorProps> = ({ src, zoomLevel, lang, onApply }) => {
+  const t = translations[lang];
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const [hasMask, setHasMask] = useState(false);
+  const [prompt, setPrompt] = useState('');
+  // Drag state kept in a ref so pointer moves do not re-render
+  const drag = useRef<{ x: number; y: number; snapshot: ImageData } | null>(null);
+
+  // The canvas matches the image's natural size, so the mask lines up with its pixels
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    setHasMask(false);
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+      scale: canvas.width / rect.width
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvasPoint(e);
+    drag.current = { x, y, snapshot: ctx.getImageData(0, 0, e.currentTarget.width, e.currentTarget.height) };
+
+    if (tool === 'brush') {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.arc(x, y, (brushSize * scale) / 2, 0, Math.PI * 2);
+      ctx.fill();
+      setHasMask(true);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx || !drag.current) return;
+    const { x, y, scale } = toCanvasPoint(e);
+
+    if (tool === 'brush') {
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = brushSize * scale;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(drag.current.x, drag.current.y);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+      drag.current = { ...drag.current, x, y };
+    } else {
+      // Redraw the rectangle from the state before the drag started
+      ctx.putImageData(drag.current.snapshot, 0, 0);
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(drag.current.x, drag.current.y, x - drag.current.x, y - drag.current.y);
+      setHasMask(true);
+    }
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    const canvas = canvasRef.current;
+    if (!canvas || !hasMask || !prompt.trim()) return;
+    onApply(canvas.toDataURL('image/png'), prompt.trim());
+  };
+
+  const toolButton = (value: MaskTool, icon: React.ReactNode, label: string) => (
+    <button
+      type="button"
+      onClick={() => setTool(value)}
+      className={`p-2 rounded-md transition-colors ${tool === value ? 'bg-cyan-600 text-white' : 'text-slate-800 dark:text-slate-200 hover:bg-black/10 dark:hover:bg-white/10'}`}
+      title={label}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <>
+      <div className="flex-1 overflow-auto flex items-center justify-center p-4 sm:p-8 pb-32">
+        <div
+          className="relative origin-center"
+          style={{ transform: `scale(${zoomLevel})`, transition: 'transform 0.2s ease-out' }}
+        >
+          <img src={src} alt="" onLoad={handleImageLoad} className="max-w-full max-h-[75vh] object-contain shadow-2xl rounded-lg select-none" draggable={false} />
+          <canvas
+            ref={canvasRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+          />
+        </div>
+      </div>
+
+      {/* Mask toolbar */}
+      <form
+        onSubmit={handleApply}
+        className="absolute bottom-4 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-3xl z-50 bg-white/90 dark:bg-slate-800/90 backdrop-blur-xl p-2 rounded-2xl shadow-2xl border border-slate-200 dark:border-white/10 flex flex-col sm:flex-row gap-2 items-center"
+      >
+        <div className="flex items-center gap-1 shrink-0">
+          {toolButton('brush', <Brush className="w-5 h-5" />, t.region.brush)}
+          {toolButton('rect', <SquareDashed className="w-5 h-5" />, t.region.rectangle)}
+          {tool === 'brush' && (
+            <input
+              type="range"
+              min={8}
+              max={120}
+              value={brushSize}
+              onChange={(e) => setBrushSize(Number(e.target.value))}
+              className="w-20 accent-cyan-600"
+              title={t.region.brushSize}
+            />
+          )}
+          <button
+            type="button"
+            onClick={clearMask}
+            className="p-2 rounded-md text-slate-800 dark:text-slate-200 hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
+            title={t.region.clear}
+          >
+            <Eraser className="w-5 h-5" />
+          </button>
+        </div>
+        <input
+          type="text"
+          value={prompt}
+          onChange={(e) => setPrompt(e.target.value)}
+          placeholder={hasMask ? t.region.placeholder : t.region.hint}
+          className="flex-1 w-full bg-transparent border-none focus:ring-0 outline-none text-slate-900 dark:text-white placeholder:text-slate-400 px-2 py-2 font-medium"
+        />
+        <button
+          type="submit"
+          disabled={!hasMask || !prompt.trim()}
+          className="w-full sm:w-auto px-5 py-2.5 rounded-xl font-bold flex items-center justify-center gap-2 transition-all bg-cyan-600 text-white hover:bg-cyan-500 disabled:bg-slate-200 dark:disabled:bg-slate-700/50 disabled:text-slate-400 disabled:cursor-not-allowed"
+        >
+          <span>{t.region.apply}</span>
+          <Sparkles className="w-4 h-4" />
+        </button>
+      </form>
+    </>
+  );
+};
+
+export default MaskEditor;
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { GeneratedImage, Language, OverlayItem, UiLanguage } from '../types';
+import { translations, languageNames } from '../translations';
+import { translateLabels } from '../services/geminiService';
+import { createArrow, createLabel } from '../utils/overlay';
+import OverlayLayer, { OverlayHandle } from './OverlayLayer';
+import { Type, MoveUpRight, Languages, Trash2, Bold, Check, X, Loader2 } from 'lucide-react';
+
+interface OverlayEditorProps {
+  image: GeneratedImage;
+  lang: UiLanguage;
+  onSave: (items: OverlayItem[]) => void;
+  onClose: () => void;
+}
+
+interface DragState {
+  id: string;
+  handle: OverlayHandle;
+  startX: number; // Pointer position when the drag started, as image fractions
+  startY: number;
+  original: OverlayItem;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const OverlayEditor: React.FC<OverlayEditorProps> = ({ image, lang, onSave, onClose }) => {
+  const t = translations[lang];
+  const [items, setItems] = useState<OverlayItem[]>(image.overlay || []);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [targetLanguage, setTargetLanguage] = useState<Language>(image.language || 'English');
+  const [isTranslating, setIsTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<DragState | null>(null);
+
+  const selected = items.find(item => item.id === selectedId);
+  const hasLabels = items.some(item => item.type === 'label');
+
+  const toImagePoint = (e: React.PointerEvent) => {
+    const rect = frameRef.current!.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const updateItem = (id: string, changes: Partial<OverlayItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...changes } as OverlayItem : item)));
+  };
+
+  const addItem = (item: OverlayItem) => {
+    setItems(prev => [...prev, item]);
+    setSelectedId(item.id);
+  };
+
+  const deleteSelected = () => {
+    setItems(prev => prev.filter(item => item.id !== selectedId));
+    setSelectedId(null);
+  };
+
+  const handleItemPointerDown = (e: React.PointerEvent, item: OverlayItem, handle: OverlayHandle) => {
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    const { x, y } = toImagePoint(e);
+    drag.current = { id: item.id, handle, startX: x, startY: y, original: item };
+    setSelectedId(item.id);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const current = drag.current;
+    if (!current) return;
+    const { x, y } = toImagePoint(e);
+    const dx = x - current.startX;
+    const dy = y - current.startY;
+    const original = current.original;
+
+    if (original.type === 'label') {
+      updateItem(original.id, { x: clamp(original.x + dx), y: clamp(original.y + dy) });
+    } else if (current.handle === 'tail') {
+      updateItem(original.id, { x: clamp(x), y: clamp(y) });
+    } else if (current.handle === 'head') {
+      updateItem(original.id, { x2: clamp(x), y2: clamp(y) });
+    } else {
+      updateItem(original.id, {
+        x: clamp(original.x + dx),
+        y: clamp(original.y + dy),
+        x2: clamp(original.x2 + dx),
+        y2: clamp(original.y2 + dy)
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const handleTranslate = async () => {
+    const labels = items.filter(item => item.type === 'label');
+    if (labels.length === 0) return;
+    setIsTranslating(true);
+    setError(null);
+    try {
+      const translated = await translateLabels(labels.map(label => label.text), targetLanguage);
+      const byId = new Map(labels.map((label, i) => [label.id, translated[i]]));
+      setItems(prev => prev.map(item => (item.type === 'label' && byId.has(item.id) ? { ...item, text: byId.get(item.id)! } : item)));
+    } catch (err) {
+      console.error('Label translation failed', err);
+      setError(t.overlay.translateFailed);
+    } finally {
+      setIsTranslating(false);
+    }
+  };
+
+  const toolbarButton = "flex items-center gap-2 px-3 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 text-xs font-bold transition-colors border border-slate-200 dark:border-white/10 disabled:opacity-50";
+  const fieldLabel = "text-[10px] font-bold text-slate-500 uppercase tracking-wider";
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-slate-100/95 dark:bg-slate-950/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 p-4 border-b border-slate-200 dark:border-white/10">
+        <button onClick={() => addItem(createLabel(t.overlay.newLabel))} className={toolbarButton}>
+          <Type className="w-4 h-4" />
+          {t.overlay.addLabel}
+        </button>
+        <button onClick={() => addItem(createArrow())} className={toolbarButton}>
+          <MoveUpRight className="w-4 h-4" />
+          {t.overlay.addArrow}
+        </button>
+
+        <div className="flex items-center gap-1 ml-2">
+          <select
+            value={targetLanguage}
+            onChange={(e) => setTargetLanguage(e.target.value as Language)}
+            className="px-2 py-2 rounded-lg bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-white/10 text-xs font-bold text-slate-700 dark:text-slate-200"
+          >
+            {(Object.keys(languageNames) as Language[]).map(language => (
+              <option key={language} value={language}>{languageNames[language]}</option>
+            ))}
+          </select>
+          <button onClick={handleTranslate} disabled={!hasLabels || isTranslating} className={toolbarButton}>
+            {isTranslating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+            {t.overlay.translate}
+          </button>
+        </div>
+        {error && <span className="text-xs text-red-500 font-medium">{error}</span>}
+
+        <div className="flex-1" />
+        <button onClick={onClose} className={toolbarButton}>
+          <X className="w-4 h-4" />
+          {t.overlay.cancel}
+        </button>
+        <button
+          onClick={() => onSave(items)}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold transition-colors"
+        >
+          <Check className="w-4 h-4" />
+          {t.overlay.save}
+        </button>
+      </div>
+
+      <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+        {/* Canvas */}
+        <div className="flex-1 overflow-auto flex items-center justify-center p-4 sm:p-8" onPointerDown={() => setSelectedId(null)}>
+          <div
+            ref={frameRef}
+            className="relative inline-block"
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            <img
+              src={image.data}
+              alt={image.prompt}
+              onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="block max-w-full max-h-[75vh] shadow-2xl rounded-lg select-none"
+              draggable={false}
+            />
+            <OverlayLayer
+              items={items}
+              width={size.width}
+              height={size.height}
+              selectedId={selectedId}
+              onItemPointerDown={handleItemPointerDown}
+              className="touch-none"
+            />
+          </div>
+        </div>
+
+        {/* Properties of the selected item */}
+        {selected && (
+          <div className="w-full lg:w-72 shrink-0 p-4 space-y-4 border-t lg:border-t-0 lg:border-l border-slate-200 dark:border-white/10 bg-white/60 dark:bg-slate-900/60">
+            {selected.type === 'label' ? (
+              <>
+                <div>
+                  <label className={fieldLabel}>{t.overlay.text}</label>
+                  <input
+                    type="text"
+                    value={selected.text}
+                    onChange={(e) => updateItem(selected.id, { text: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 rounded-lg bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500"
+                  />
+                </div>
+                <div>
+                  <label className={fieldLabel}>{t.overlay.size}</label>
+                  <input
+                    type="range"
+                    min={0.01}
+                    max={0.1}
+                    step={0.0025}
+                    value={selected.fontSize}
+                    onChange={(e) => updateItem(selected.id, { fontSize: Number(e.target.value) })}
+                    className="mt-1 w-full accent-cyan-600"
+                  />
+                </div>
+                <div className="flex items-end gap-4">
+                  <div>
+                    <label className={fieldLabel}>{t.overlay.color}</label>
+                    <input type="color" value={selected.color} onChange={(e) => updateItem(selected.id, { color: e.target.value })} className="block mt-1 w-10 h-8 rounded cursor-pointer" />
+                  </div>
+                  <div>
+                    <label className={fieldLabel}>{t.overlay.halo}</label>
+                    <input type="color" value={selected.haloColor} onChange={(e) => updateItem(selected.id, { haloColor: e.target.value })} className="block mt-1 w-10 h-8 rounded cursor-pointer" />
+                  </div>
+                  <button
+                    onClick={() => updateItem(selected.id, { bold: !selected.bold })}
+                    className={`p-2 rounded-lg border transition-colors ${selected.bold ? 'bg-cyan-600 text-white border-cyan-500' : 'border-slate-200 dark:border-white/10 text-slate-600 dark:text-slate-300'}`}
+                    title={t.overlay.bold}
+                  >
+                    <Bold className="w-4 h-4" />
+                  </button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div>
+                  <label className={fieldLabel}>{t.overlay.thickness}</label>
+                  <input
+                    type="range"
+                    min={0.002}
+                    max={0.02}
+                    step={0.001}
+                    value={selected.width}
+                    onChange={(e) => updateItem(selected.id, { width: Number(e.target.value) })}
+                    className="mt-1 w-full accent-cyan-600"
+                  />
+                </div>
+                <div>
+                  <label className={fieldLabel}>{t.overlay.color}</label>
+                  <input type="color" value={selected.color} onChange={(e) => updateItem(selected.id, { color: e.target.value })} className="block mt-1 w-10 h-8 rounded cursor-pointer" />
+                </div>
+              </>
+            )}
+            <button
+              onClick={deleteSelected}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 text-xs font-bold transition-colors"
+            >
+              <Trash2 className="w-4 h-4" />
+              {t.overlay.delete}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OverlayEditor;
@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { OverlayItem } from '../types';
+import { OVERLAY_FONT, arrowHeadPoints, haloWidth } from '../utils/overlay';
+
+export type OverlayHandle = 'body' | 'tail' | 'head';
+
+interface OverlayLayerProps {
+  items: OverlayItem[];
+  width: number; // Natural size of the image underneath
+  height: number;
+  selectedId?: string | null;
+  onItemPointerDown?: (e: React.PointerEvent, item: OverlayItem, handle: OverlayHandle) => void;
+  className?: string;
+}
+
+// SVG rendering of the overlay in image pixel space; "meet" lines it up with object-contain images
+const OverlayLayer: React.FC<OverlayLayerProps> = ({ items, width, height, selectedId, onItemPointerDown, className = '' }) => {
+  if (!width || !height) return null;
+  const interactive = !!onItemPointerDown;
+  const handleRadius = width * 0.008;
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      preserveAspectRatio="xMidYMid meet"
+      className={`absolute inset-0 w-full h-full ${interactive ? '' : 'pointer-events-none'} ${className}`}
+    >
+      {items.map(item => {
+        const isSelected = item.id === selectedId;
+
+        if (item.type === 'label') {
+          const fontSize = item.fontSize * width;
+          // Rough text box, only used to outline the selection
+          const boxWidth = Math.max(item.text.length, 1) * fontSize * 0.6 + fontSize;
+          return (
+            <g
+              key={item.id}
+              onPointerDown={interactive ? e => onItemPointerDown!(e, item, 'body') : undefined}
+              style={interactive ? { cursor: 'move' } : undefined}
+            >
+              {isSelected && (
+                <rect
+                  x={item.x * width - boxWidth / 2}
+                  y={item.y * height - fontSize * 0.8}
+                  width={boxWidth}
+                  height={fontSize * 1.6}
+                  fill="none"
+                  stroke="#06b6d4"
+                  strokeWidth={width * 0.002}
+                  strokeDasharray={`${width * 0.006} ${width * 0.004}`}
+                />
+              )}
+              <text
+                x={item.x * width}
+                y={item.y * height}
+                fontSize={fontSize}
+                fontFamily={OVERLAY_FONT}
+                fontWeight={item.bold ? 'bold' : 'normal'}
+                fill={item.color}
+                stroke={item.haloColor}
+                strokeWidth={haloWidth(item, width)}
+                strokeLinejoin="round"
+                paintOrder="stroke"
+                textAnchor="middle"
+                dominantBaseline="middle"
+                className="select-none"
+              >
+                {item.text}
+              </text>
+            </g>
+          );
+        }
+
+        const [tip, left, right] = arrowHeadPoints(item, width, height);
+        const shaftEnd = [(left[0] + right[0]) / 2, (left[1] + right[1]) / 2];
+        return (
+          <g key={item.id}>
+            <g
+              onPointerDown={interactive ? e => onItemPointerDown!(e, item, 'body') : undefined}
+              style={interactive ? { cursor: 'move' } : undefined}
+            >
+              {/* Wide transparent stroke makes thin arrows easy to grab */}
+              {interactive && (
+                <line x1={item.x * width} y1={item.y * height} x2={tip[0]} y2={tip[1]} stroke="transparent" strokeWidth={width * 0.02} />
+              )}
+              <line
+                x1={item.x * width}
+                y1={item.y * height}
+                x2={shaftEnd[0]}
+                y2={shaftEnd[1]}
+                stroke={item.color}
+                strokeWidth={item.width * width}
+                strokeLinecap="round"
+              />
+              <polygon points={[tip, left, right].map(p => p.join(',')).join(' ')} fill={item.color} />
+            </g>
+            {isSelected && interactive && (
+              <>
+                <circle
+                  cx={item.x * width}
+                  cy={item.y * height}
+                  r={handleRadius}
+                  fill="#ffffff"
+                  stroke="#06b6d4"
+                  strokeWidth={handleRadius / 3}
+                  style={{ cursor: 'crosshair' }}
+                  onPointerDown={e => onItemPointerDown!(e, item, 'tail')}
+                />
+                <circle
+                  cx={tip[0]}
+                  cy={tip[1]}
+                  r={handleRadius}
+                  fill="#ffffff"
+                  stroke="#06b6d4"
+                  strokeWidth={handleRadius / 3}
+                  style={{ cursor: 'crosshair' }}
+                  onPointerDown={e => onItemPointerDown!(e, item, 'head')}
+                />
+              </>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default OverlayLayer;
@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { UiLanguage } from '../types';
+import { translations } from '../translations';
+import { loadSnippets, saveSnippets, PromptSnippet } from '../services/promptSnippets';
+import { PencilLine, Plus, Trash2, BookmarkPlus, Bookmark, X, Sparkles } from 'lucide-react';
+
+interface PromptReviewProps {
+  facts: string[];
+  imagePrompt: string;
+  lang: UiLanguage;
+  onConfirm: (facts: string[], imagePrompt: string) => void;
+  onCancel: () => void;
+}
+
+const PromptReview: React.FC<PromptReviewProps> = ({ facts: initialFacts, imagePrompt: initialPrompt, lang, onConfirm, onCancel }) => {
+  const t = translations[lang];
+  const [facts, setFacts] = useState<string[]>(initialFacts);
+  const [prompt, setPrompt] = useState(initialPrompt);
+  const [snippets, setSnippets] = useState<PromptSnippet[]>(loadSnippets);
+  const [snippetName, setSnippetName] = useState('');
+
+  const updateFact = (index: number, value: string) => {
+    setFacts(prev => prev.map((fact, i) => (i === index ? value : fact)));
+  };
+
+  const updateSnippets = (next: PromptSnippet[]) => {
+    setSnippets(next);
+    saveSnippets(next);
+  };
+
+  const handleSaveSnippet = () => {
+    const name = snippetName.trim();
+    if (!name || !prompt.trim()) return;
+    updateSnippets([...snippets, { id: Date.now().toString(), name, text: prompt.trim() }]);
+    setSnippetName('');
+  };
+
+  // Snippets are appended, so a saved style or layout block can be combined with the researched prompt
+  const insertSnippet = (snippet: PromptSnippet) => {
+    setPrompt(prev => (prev.trim() ? `${prev.trim()}\n\n${snippet.text}` : snippet.text));
+  };
+
+  const handleConfirm = () => {
+    if (!prompt.trim()) return;
+    onConfirm(facts.map(f => f.trim()).filter(f => f.length > 0), prompt.trim());
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto mt-8 bg-white/90 dark:bg-slate-900/90 backdrop-blur-xl border border-slate-200 dark:border-white/10 rounded-3xl shadow-2xl p-6 md:p-8 animate-in fade-in slide-in-from-bottom-4 print:hidden">
+      <div className="flex items-center gap-3 mb-2">
+        <div className="p-2 bg-cyan-50 dark:bg-cyan-900/30 rounded-lg text-cyan-600 dark:text-cyan-400">
+          <PencilLine className="w-5 h-5" />
+        </div>
+        <h3 className="text-lg font-bold font-display text-slate-900 dark:text-white">{t.review.title}</h3>
+      </div>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-6">{t.review.desc}</p>
+
+      {/* Facts */}
+      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.review.facts}</label>
+      <div className="mt-2 mb-6 space-y-2">
+        {facts.map((fact, i) => (
+          <div key={i} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={fact}
+              onChange={(e) => updateFact(i, e.target.value)}
+              className="flex-1 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500"
+            />
+            <button
+              onClick={() => setFacts(prev => prev.filter((_, j) => j !== i))}
+              className="p-2 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+              title={t.review.removeFact}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setFacts(prev => [...prev, ''])}
+          className="flex items-center gap-1.5 text-xs font-bold text-cyan-600 dark:text-cyan-400 hover:underline"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          {t.review.addFact}
+        </button>
+      </div>
+
+      {/* Image prompt */}
+      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.review.prompt}</label>
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        rows={7}
+        className="mt-2 w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 text-sm text-slate-800 dark:text-slate-200 font-mono outline-none focus:border-cyan-500 resize-y"
+      />
+
+      {/* Snippets */}
+      <div className="mt-4">
+        <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.review.snippets}</label>
+        <div className="mt-2 flex flex-wrap gap-2">
+          {snippets.length === 0 && (
+            <span className="text-xs text-slate-400 italic">{t.review.noSnippets}</span>
+          )}
+          {snippets.map(snippet => (
+            <div key={snippet.id} className="flex items-center rounded-lg bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-200 dark:border-indigo-500/20 text-indigo-700 dark:text-indigo-300 text-xs font-medium">
+              <button
+                onClick={() => insertSnippet(snippet)}
+                className="flex items-center gap-1.5 pl-2.5 pr-1.5 py-1.5 hover:text-indigo-900 dark:hover:text-indigo-100"
+                title={snippet.text}
+              >
+                <Bookmark className="w-3 h-3" />
+                {snippet.name}
+              </button>
+              <button
+                onClick={() => updateSnippets(snippets.filter(s => s.id !== snippet.id))}
+                className="pr-2 py-1.5 opacity-60 hover:opacity-100 hover:text-red-500"
+                title={t.review.deleteSnippet}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="mt-3 flex gap-2">
+          <input
+            type="text"
+            value={snippetName}
+            onChange={(e) => setSnippetName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSaveSnippet()}
+            placeholder={t.review.snippetName}
+            className="flex-1 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 text-xs text-slate-800 dark:text-slate-200 outline-none focus:border-indigo-500"
+          />
+          <button
+            onClick={handleSaveSnippet}
+            disabled={!snippetName.trim() || !prompt.trim()}
+            className="flex items-center gap-1.5 px-3 py-2 rounded-xl bg-slate-100 dark:bg-slate-800 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 text-slate-600 dark:text-slate-300 text-xs font-bold transition-colors disabled:opacity-40"
+          >
+            <BookmarkPlus className="w-3.5 h-3.5" />
+            {t.review.saveSnippet}
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-8 flex justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 rounded-xl text-sm font-bold text-slate-500 hover:text-slate-800 dark:hover:text-white transition-colors"
+        >
+          {t.review.cancel}
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={!prompt.trim()}
+          className="flex items-center gap-2 px-6 py-2.5 rounded-xl bg-gradient-to-r from-cyan-600 to-blue-600 text-white text-sm font-bold hover:brightness-110 transition-all disabled:opacity-50"
+        >
+          <Sparkles className="w-4 h-4" />
+          {t.review.generate}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptReview;
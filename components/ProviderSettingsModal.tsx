@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { UiLanguage } from '../types';
+import { translations } from '../translations';
+import { listProviders, ProviderSettings, ProviderStep, OpenAiCompatibleConfig } from '../services/providers';
+import { Cpu, X, Save, Search, Image as ImageIcon, Edit3 } from 'lucide-react';
+
+interface ProviderSettingsModalProps {
+  settings: ProviderSettings;
+  lang: UiLanguage;
+  onSave: (settings: ProviderSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full px-3 py-2 bg-slate-50 dark:bg-slate-950 border border-slate-200 dark:border-slate-700 rounded-lg font-mono text-xs focus:ring-2 focus:ring-cyan-500 focus:border-transparent outline-none text-slate-800 dark:text-slate-200 placeholder:text-slate-400";
+
+const ProviderSettingsModal: React.FC<ProviderSettingsModalProps> = ({ settings, lang, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProviderSettings>(settings);
+  const t = translations[lang];
+  const providers = listProviders();
+
+  const steps: { step: ProviderStep; label: string; icon: React.ElementType }[] = [
+    { step: 'research', label: t.providers.research, icon: Search },
+    { step: 'image', label: t.providers.image, icon: ImageIcon },
+    { step: 'edit', label: t.providers.edit, icon: Edit3 }
+  ];
+
+  const setStep = (step: ProviderStep, providerId: string) => {
+    setDraft({ ...draft, steps: { ...draft.steps, [step]: providerId } });
+  };
+
+  const setOpenAi = (field: keyof OpenAiCompatibleConfig, value: string) => {
+    setDraft({ ...draft, openai: { ...draft.openai, [field]: value } });
+  };
+
+  const usesOpenAi = Object.values(draft.steps).includes('openai');
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-slate-950/90 backdrop-blur-md flex items-center justify-center p-4 animate-in fade-in duration-300">
+        <div className="bg-white dark:bg-slate-900 border-2 border-cyan-500/50 rounded-2xl shadow-2xl max-w-lg w-full p-6 md:p-8 relative overflow-hidden flex flex-col max-h-[90vh]">
+            <button
+                onClick={onClose}
+                className="absolute top-4 right-4 text-slate-400 hover:text-slate-600 dark:hover:text-white transition-colors"
+            >
+                <X className="w-5 h-5" />
+            </button>
+            <div className="absolute top-0 left-0 w-full h-1.5 bg-gradient-to-r from-cyan-500 via-indigo-500 to-purple-500"></div>
+
+            <div className="flex flex-col space-y-5 overflow-y-auto pr-2">
+                <div className="flex items-center gap-4">
+                    <div className="w-12 h-12 bg-cyan-100 dark:bg-cyan-900/30 rounded-xl flex items-center justify-center text-cyan-600 dark:text-cyan-400 border border-cyan-200 dark:border-cyan-800 shrink-0">
+                        <Cpu className="w-6 h-6" />
+                    </div>
+                    <div>
+                        <h2 className="text-xl font-display font-bold text-slate-900 dark:text-white leading-tight">
+                            {t.providers.title}
+                        </h2>
+                        <p className="text-slate-500 dark:text-slate-400 text-xs">
+                            {t.providers.desc}
+                        </p>
+                    </div>
+                </div>
+
+                <div className="space-y-3">
+                    {steps.map(({ step, label, icon: Icon }) => (
+                        <div key={step} className="flex items-center gap-3 bg-slate-50 dark:bg-slate-950/50 rounded-xl border border-slate-200 dark:border-white/5 px-4 py-3">
+                            <Icon className="w-4 h-4 text-cyan-600 dark:text-cyan-400 shrink-0" />
+                            <label className="text-sm font-bold text-slate-700 dark:text-slate-300 flex-1">{label}</label>
+                            <select
+                                value={draft.steps[step]}
+                                onChange={(e) => setStep(step, e.target.value)}
+                                className="bg-transparent border-none text-sm font-bold text-slate-900 dark:text-slate-100 focus:ring-0 cursor-pointer [&>option]:bg-white [&>option]:text-slate-900 dark:[&>option]:bg-slate-900 dark:[&>option]:text-slate-100"
+                            >
+                                {providers.map(provider => (
+                                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                ))}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                {usesOpenAi && (
+                    <div className="space-y-3 border-t border-slate-200 dark:border-white/10 pt-5">
+                        <h3 className="text-sm font-bold text-slate-800 dark:text-white">{t.providers.openAiTitle}</h3>
+                        <p className="text-xs text-slate-500 dark:text-slate-400 leading-relaxed">{t.providers.openAiDesc}</p>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.providers.baseUrl}</label>
+                            <input type="url" value={draft.openai.baseUrl} onChange={(e) => setOpenAi('baseUrl', e.target.value)} className={inputClassName} />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.providers.apiKey}</label>
+                            <input type="password" value={draft.openai.apiKey} onChange={(e) => setOpenAi('apiKey', e.target.value)} className={inputClassName} placeholder="sk-..." />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div className="space-y-1">
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.providers.textModel}</label>
+                                <input type="text" value={draft.openai.textModel} onChange={(e) => setOpenAi('textModel', e.target.value)} className={inputClassName} />
+                            </div>
+                            <div className="space-y-1">
+                                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.providers.imageModel}</label>
+                                <input type="text" value={draft.openai.imageModel} onChange={(e) => setOpenAi('imageModel', e.target.value)} className={inputClassName} />
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                <button
+                    onClick={() => onSave(draft)}
+                    className="w-full py-3 bg-gradient-to-r from-cyan-600 to-blue-600 hover:from-cyan-500 hover:to-blue-500 text-white rounded-xl font-bold shadow-lg shadow-cyan-500/20 transition-all transform hover:scale-[1.02] flex items-center justify-center gap-2"
+                >
+                    <Save className="w-4 h-4" />
+                    <span>{t.providers.save}</span>
+                </button>
+
+                <p className="text-[10px] text-center text-slate-400 dark:text-slate-500">
+                   {t.apiModal.note}
+                </p>
+            </div>
+        </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsModal;
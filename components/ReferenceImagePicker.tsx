@@ -0,0 +1,93 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { UiLanguage } from '../types';
+import { translations } from '../translations';
+import { blobToDataUrl } from '../utils/dataUrl';
+import { downscaleImage } from '../utils/image';
+import { ImagePlus, X, Loader2 } from 'lucide-react';
+
+interface ReferenceImagePickerProps {
+  images: string[]; // Base64 data URLs
+  lang: UiLanguage;
+  onChange: (images: string[]) => void;
+}
+
+const MAX_REFERENCE_IMAGES = 4;
+// Plenty for layout and subject, and keeps requests and the stored history small
+const MAX_REFERENCE_SIZE = 1536;
+
+// Photos, sketches or diagrams attached to the search form
+const ReferenceImagePicker: React.FC<ReferenceImagePickerProps> = ({ images, lang, onChange }) => {
+  const t = translations[lang];
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    setError(null);
+    const added: string[] = [];
+    for (const file of files.filter(f => f.type.startsWith('image/'))) {
+      if (images.length + added.length >= MAX_REFERENCE_IMAGES) {
+        setError(t.references.tooMany.replace('{n}', String(MAX_REFERENCE_IMAGES)));
+        break;
+      }
+      try {
+        added.push(await downscaleImage(await blobToDataUrl(file), MAX_REFERENCE_SIZE));
+      } catch (err) {
+        console.error(`Could not read ${file.name}`, err);
+        setError(t.references.failed.replace('{name}', file.name));
+      }
+    }
+    setIsReading(false);
+    if (added.length > 0) onChange([...images, ...added]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 md:px-6 pb-2">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={handleFiles}
+      />
+      {images.map((image, i) => (
+        <div key={i} className="relative group/reference">
+          <img src={image} alt={`${t.references.label} ${i + 1}`} className="h-12 w-12 object-cover rounded-lg border border-slate-200 dark:border-white/10" />
+          <button
+            type="button"
+            onClick={() => onChange(images.filter((_, j) => j !== i))}
+            className="absolute -top-1.5 -right-1.5 p-0.5 rounded-full bg-slate-800 text-white opacity-80 hover:opacity-100 hover:bg-red-600 transition-colors"
+            title={t.references.remove}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      ))}
+      {images.length < MAX_REFERENCE_IMAGES && (
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReading}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-[11px] font-bold text-slate-500 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors disabled:opacity-50"
+          title={t.references.hint}
+        >
+          {isReading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ImagePlus className="w-3.5 h-3.5" />}
+          {t.references.attach}
+        </button>
+      )}
+      {error && <span className="text-[11px] text-red-500 font-medium">{error}</span>}
+    </div>
+  );
+};
+
+export default ReferenceImagePicker;
@@ -5,7 +5,8 @@
 import React from 'react';
 import { SearchResultItem, UiLanguage } from '../types';
 import { translations } from '../translations';
-import { ExternalLink, BookOpen, Link as LinkIcon } from 'lucide-react';
+import { sourceHref } from '../utils/sourceDocuments';
+import { ExternalLink, BookOpen, Link as LinkIcon, FileText } from 'lucide-react';
 
 interface SearchResultsProps {
   results: SearchResultItem[];
@@ -26,27 +27,34 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results, lang }) => {
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-        {results.map((result, index) => (
-          <a 
+        {results.map((result, index) => {
+          const href = sourceHref(result);
+          // Uploaded documents have nothing to open, unless they were named after their URL
+          const Card = href ? 'a' : 'div';
+          return (
+          <Card 
             key={index} 
-            href={result.url} 
-            target="_blank" 
-            rel="noopener noreferrer"
-            className="group relative flex flex-col p-5 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl hover:border-cyan-500/30 hover:bg-slate-50 dark:hover:bg-slate-800/80 transition-all duration-300 overflow-hidden shadow-sm hover:shadow-md"
+            id={`source-${index + 1}`}
+            {...(href ? { href, target: '_blank', rel: 'noopener noreferrer' } : {})}
+            className="group relative flex flex-col p-5 bg-white dark:bg-slate-900/60 border border-slate-200 dark:border-white/5 rounded-xl hover:border-cyan-500/30 hover:bg-slate-50 dark:hover:bg-slate-800/80 transition-all duration-300 overflow-hidden shadow-sm hover:shadow-md scroll-mt-24 target:ring-2 target:ring-cyan-500"
           >
             <div className="absolute top-0 left-0 w-1 h-full bg-cyan-500/0 group-hover:bg-cyan-500/50 transition-all duration-300"></div>
             
             <div className="flex items-start justify-between gap-3 mb-3">
-               <h4 className="font-display font-bold text-slate-800 dark:text-slate-200 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 transition-colors line-clamp-2 leading-tight text-sm">
+               <span className="flex-shrink-0 min-w-[1.5rem] px-1 py-0.5 rounded-md bg-cyan-50 dark:bg-cyan-900/30 text-cyan-700 dark:text-cyan-400 text-[10px] font-bold font-mono text-center">
+                 {index + 1}
+               </span>
+               <h4 className="flex-1 font-display font-bold text-slate-800 dark:text-slate-200 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 transition-colors line-clamp-2 leading-tight text-sm">
                  {result.title}
                </h4>
-               <ExternalLink className="w-3.5 h-3.5 text-slate-400 dark:text-slate-600 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 flex-shrink-0 transition-colors mt-0.5" />
+               {href && <ExternalLink className="w-3.5 h-3.5 text-slate-400 dark:text-slate-600 group-hover:text-cyan-600 dark:group-hover:text-cyan-400 flex-shrink-0 transition-colors mt-0.5" />}
             </div>
             
             <div className="mt-auto flex items-center gap-2 text-[10px] text-slate-500 font-mono">
-              <LinkIcon className="w-3 h-3" />
+              {result.document ? <FileText className="w-3 h-3" /> : <LinkIcon className="w-3 h-3" />}
               <span className="truncate max-w-full opacity-70 group-hover:opacity-100 transition-opacity uppercase tracking-wider">
                 {(() => {
+                  if (result.document) return t.documents.uploaded;
                   try {
                     return new URL(result.url).hostname.replace('www.', '');
                   } catch {
@@ -55,8 +63,9 @@ const SearchResults: React.FC<SearchResultsProps> = ({ results, lang }) => {
                 })()}
               </span>
             </div>
-          </a>
-        ))}
+          </Card>
+          );
+        })}
       </div>
     </div>
   );
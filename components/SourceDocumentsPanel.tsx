@@ -0,0 +1,155 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useRef, useState } from 'react';
+import { SourceDocument, UiLanguage } from '../types';
+import { translations } from '../translations';
+import { readSourceDocument, createPastedDocument, documentSize, SOURCE_DOCUMENT_ACCEPT, MAX_DOCUMENT_BYTES } from '../utils/sourceDocuments';
+import { FileUp, FileText, ClipboardPaste, Trash2, X, Files, Loader2 } from 'lucide-react';
+
+interface SourceDocumentsPanelProps {
+  documents: SourceDocument[];
+  lang: UiLanguage;
+  onChange: (documents: SourceDocument[]) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) => (bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`);
+
+// The user's own material to ground research on; while it holds any document, web search is not used
+const SourceDocumentsPanel: React.FC<SourceDocumentsPanelProps> = ({ documents, lang, onChange, onClose }) => {
+  const t = translations[lang];
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [pasteName, setPasteName] = useState('');
+  const [pasteText, setPasteText] = useState('');
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setIsReading(true);
+    const added: SourceDocument[] = [];
+    const failed: string[] = [];
+    for (const file of files) {
+      try {
+        const result = await readSourceDocument(file);
+        if ('document' in result) {
+          added.push(result.document);
+        } else {
+          failed.push((result.error === 'tooLarge' ? t.documents.tooLarge : t.documents.unsupported)
+            .replace('{name}', file.name)
+            .replace('{size}', formatSize(MAX_DOCUMENT_BYTES)));
+        }
+      } catch (err) {
+        console.error(`Could not read ${file.name}`, err);
+        failed.push(t.documents.readFailed.replace('{name}', file.name));
+      }
+    }
+    setErrors(failed);
+    setIsReading(false);
+    if (added.length > 0) onChange([...documents, ...added]);
+  };
+
+  const handleAddPasted = () => {
+    if (!pasteText.trim()) return;
+    const name = pasteName.trim() || t.documents.pastedName.replace('{n}', String(documents.length + 1));
+    onChange([...documents, createPastedDocument(name, pasteText.trim())]);
+    setPasteName('');
+    setPasteText('');
+  };
+
+  return (
+    <div className="mt-4 p-5 bg-white dark:bg-slate-900/80 border border-slate-200 dark:border-white/10 rounded-2xl shadow-xl backdrop-blur-md animate-in fade-in slide-in-from-top-2">
+      <div className="flex items-center justify-between gap-3 mb-1">
+        <div className="flex items-center gap-2">
+          <Files className="w-4 h-4 text-cyan-600 dark:text-cyan-400" />
+          <h3 className="text-sm font-bold font-display text-slate-900 dark:text-white">{t.documents.title}</h3>
+        </div>
+        <button type="button" onClick={onClose} className="p-1 rounded-lg text-slate-400 hover:text-slate-700 dark:hover:text-slate-200 transition-colors" title={t.documents.close}>
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400 mb-4">{t.documents.desc}</p>
+
+      {documents.length > 0 && (
+        <ul className="mb-4 space-y-1.5">
+          {documents.map((document, i) => (
+            <li key={document.id} className="flex items-center gap-2 px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/5 text-sm">
+              <span className="text-[10px] font-bold font-mono text-cyan-700 dark:text-cyan-400">[{i + 1}]</span>
+              <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+              <span className="flex-1 truncate text-slate-800 dark:text-slate-200" title={document.name}>{document.name}</span>
+              <span className="text-[10px] text-slate-400 font-mono">{formatSize(documentSize(document))}</span>
+              <button
+                type="button"
+                onClick={() => onChange(documents.filter(d => d.id !== document.id))}
+                className="p-1 rounded-lg text-slate-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                title={t.documents.remove}
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={SOURCE_DOCUMENT_ACCEPT}
+          multiple
+          className="hidden"
+          onChange={handleFiles}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isReading}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-cyan-50 dark:bg-cyan-900/30 hover:bg-cyan-100 dark:hover:bg-cyan-900/50 text-cyan-700 dark:text-cyan-400 text-xs font-bold transition-colors border border-cyan-200 dark:border-cyan-500/20 disabled:opacity-40"
+        >
+          {isReading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileUp className="w-3.5 h-3.5" />}
+          {t.documents.upload}
+        </button>
+        <span className="text-[10px] text-slate-400">{t.documents.formats.replace('{size}', formatSize(MAX_DOCUMENT_BYTES))}</span>
+        {documents.length > 0 && (
+          <button type="button" onClick={() => onChange([])} className="ml-auto text-xs font-bold text-slate-500 hover:text-red-500 underline">
+            {t.documents.clear}
+          </button>
+        )}
+      </div>
+      {errors.map(message => <p key={message} className="mb-2 text-xs text-red-500 font-medium">{message}</p>)}
+
+      {/* Pasted text, e.g. the content of a web page */}
+      <label className="text-[10px] font-bold text-slate-500 uppercase tracking-wider">{t.documents.paste}</label>
+      <input
+        type="text"
+        value={pasteName}
+        onChange={(e) => setPasteName(e.target.value)}
+        placeholder={t.documents.pasteName}
+        className="mt-2 w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 text-xs text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500"
+      />
+      <textarea
+        value={pasteText}
+        onChange={(e) => setPasteText(e.target.value)}
+        rows={4}
+        placeholder={t.documents.pastePlaceholder}
+        className="mt-2 w-full px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-950/50 border border-slate-200 dark:border-white/10 text-sm text-slate-800 dark:text-slate-200 outline-none focus:border-cyan-500 resize-y"
+      />
+      <button
+        type="button"
+        onClick={handleAddPasted}
+        disabled={!pasteText.trim()}
+        className="mt-2 flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-slate-200 dark:hover:bg-slate-700 text-slate-600 dark:text-slate-300 text-xs font-bold transition-colors disabled:opacity-40"
+      >
+        <ClipboardPaste className="w-3.5 h-3.5" />
+        {t.documents.addPasted}
+      </button>
+    </div>
+  );
+};
+
+export default SourceDocumentsPanel;
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ImageVariant, UiLanguage } from '../types';
+import { translations } from '../translations';
+import { LayoutGrid, Trophy, CircleCheck, Trash2 } from 'lucide-react';
+
+interface VariantPickerProps {
+  variants: ImageVariant[];
+  lang: UiLanguage;
+  onKeep: (variants: ImageVariant[]) => void; // First one becomes the current image
+  onDiscard: () => void;
+}
+
+const VariantPicker: React.FC<VariantPickerProps> = ({ variants, lang, onKeep, onDiscard }) => {
+  const t = translations[lang];
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const keepSelected = () => {
+    onKeep(variants.filter((_, i) => selected.has(i)));
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto mt-8 animate-in fade-in slide-in-from-bottom-4 print:hidden">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-cyan-600 dark:text-cyan-400 shadow-sm">
+            <LayoutGrid className="w-5 h-5" />
+          </div>
+          <div>
+            <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">{t.variants.title}</h3>
+            <p className="text-xs text-slate-400">{t.variants.desc}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onDiscard}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-slate-100 dark:bg-slate-800 hover:bg-red-50 dark:hover:bg-red-900/30 text-slate-500 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 text-xs font-medium transition-colors border border-slate-200 dark:border-white/10"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            <span>{t.variants.discard}</span>
+          </button>
+          <button
+            onClick={keepSelected}
+            disabled={selected.size === 0}
+            className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold transition-colors disabled:opacity-40"
+          >
+            <CircleCheck className="w-3.5 h-3.5" />
+            <span>{t.variants.keepSelected.replace('{count}', String(selected.size))}</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 md:gap-6">
+        {variants.map((variant, i) => {
+          const isSelected = selected.has(i);
+          return (
+            <div
+              key={i}
+              className={`group relative rounded-2xl overflow-hidden border-2 bg-white dark:bg-slate-900 shadow-sm transition-all ${isSelected ? 'border-cyan-500 ring-4 ring-cyan-500/20' : 'border-slate-200 dark:border-white/10 hover:border-cyan-500/50'}`}
+            >
+              <button onClick={() => toggle(i)} className="block w-full" title={t.variants.select}>
+                <img src={variant.data} alt={`${t.variants.variant} ${i + 1}`} className="w-full aspect-video object-contain bg-slate-50 dark:bg-slate-950" />
+              </button>
+              <div className="absolute top-3 left-3 px-2 py-0.5 rounded-full bg-black/60 text-white text-[10px] font-bold uppercase tracking-wide backdrop-blur-sm">
+                {t.variants.variant} {i + 1}
+              </div>
+              {isSelected && (
+                <CircleCheck className="absolute top-3 right-3 w-6 h-6 text-cyan-500 bg-white rounded-full" />
+              )}
+              <button
+                onClick={() => onKeep([variant])}
+                className="absolute bottom-3 right-3 flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-amber-500 hover:bg-amber-400 text-white text-xs font-bold shadow-lg opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity"
+              >
+                <Trophy className="w-3.5 h-3.5" />
+                {t.variants.pickWinner}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { GeneratedImage, UiLanguage } from '../types';
+import { translations } from '../translations';
+import { getChildren, getLineage, getRoot, getSiblings, countFamily } from '../utils/lineage';
+import { GitBranch, GitFork, ChevronRight, Columns } from 'lucide-react';
+
+interface VersionTreeProps {
+  images: GeneratedImage[];
+  current: GeneratedImage;
+  lang: UiLanguage;
+  onSelect: (image: GeneratedImage) => void;
+  onCompare?: (left: GeneratedImage, right: GeneratedImage) => void;
+}
+
+const VersionTree: React.FC<VersionTreeProps> = ({ images, current, lang, onSelect, onCompare }) => {
+  const [showSiblings, setShowSiblings] = useState(false);
+  const t = translations[lang];
+
+  const root = getRoot(images, current);
+  if (countFamily(images, root.id) < 2) return null;
+
+  const lineage = getLineage(images, current);
+  const lineageIds = new Set(lineage.map(img => img.id));
+  const siblings = getSiblings(images, current);
+
+  const labelFor = (img: GeneratedImage) => img.editInstruction || img.prompt;
+
+  const renderNode = (img: GeneratedImage, seen: Set<string>): React.ReactNode => {
+    if (seen.has(img.id)) return null;
+    seen.add(img.id);
+    const children = getChildren(images, img.id);
+    const isCurrent = img.id === current.id;
+    const isOnPath = lineageIds.has(img.id);
+
+    return (
+      <li key={img.id}>
+        <div
+          className={`group flex items-center gap-3 p-2 rounded-xl border transition-colors ${isCurrent ? 'border-cyan-500 bg-cyan-50 dark:bg-cyan-900/20' : isOnPath ? 'border-cyan-500/30 bg-white dark:bg-slate-900/60' : 'border-slate-200 dark:border-white/5 bg-white dark:bg-slate-900/40'}`}
+        >
+          <img src={img.data} alt={img.prompt} className="w-16 aspect-video object-cover rounded-md border border-slate-200 dark:border-white/10 shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs font-bold text-slate-800 dark:text-slate-100 truncate" title={labelFor(img)}>
+              {img.parentId ? `“${labelFor(img)}”` : labelFor(img)}
+            </p>
+            <p className="text-[10px] text-slate-400 font-mono">{new Date(img.timestamp).toLocaleString()}</p>
+          </div>
+          {isCurrent ? (
+            <span className="text-[9px] uppercase font-bold tracking-wide px-2 py-0.5 rounded-full bg-cyan-600 text-white shrink-0">{t.versions.current}</span>
+          ) : (
+            <button
+              onClick={() => onSelect(img)}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg text-[10px] font-bold uppercase tracking-wide text-slate-500 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors shrink-0"
+              title={t.versions.forkHint}
+            >
+              <GitFork className="w-3.5 h-3.5" />
+              <span className="hidden sm:inline">{t.versions.fork}</span>
+            </button>
+          )}
+        </div>
+        {children.length > 0 && (
+          <ul className="ml-6 pl-4 mt-2 space-y-2 border-l-2 border-dashed border-slate-200 dark:border-white/10">
+            {children.map(child => renderNode(child, seen))}
+          </ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="w-full max-w-6xl mx-auto mt-12 animate-in fade-in slide-in-from-bottom-8 duration-1000 print:hidden">
+      <div className="flex items-center justify-between gap-3 mb-6 border-t border-slate-200 dark:border-white/10 pt-8">
+        <div className="flex items-center gap-3">
+          <div className="p-2 bg-white dark:bg-slate-900 rounded-lg border border-slate-200 dark:border-white/10 text-cyan-600 dark:text-cyan-400 shadow-sm">
+            <GitBranch className="w-5 h-5" />
+          </div>
+          <h3 className="text-sm font-bold text-slate-500 dark:text-slate-400 uppercase tracking-[0.2em]">{t.versions.title}</h3>
+        </div>
+        {siblings.length > 0 && (
+          <button
+            onClick={() => setShowSiblings(!showSiblings)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors border ${showSiblings ? 'bg-cyan-600 text-white border-cyan-600' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-400 border-slate-200 dark:border-white/10 hover:bg-slate-200 dark:hover:bg-slate-700'}`}
+          >
+            <Columns className="w-3.5 h-3.5" />
+            <span>{t.versions.compareSiblings} ({siblings.length + 1})</span>
+          </button>
+        )}
+      </div>
+
+      {/* Edit chain from the original down to the current version */}
+      <div className="flex flex-wrap items-center gap-1 mb-6 text-xs">
+        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-wider mr-2">{t.versions.chain}</span>
+        {lineage.map((img, index) => (
+          <React.Fragment key={img.id}>
+            {index > 0 && <ChevronRight className="w-3 h-3 text-slate-400" />}
+            <button
+              onClick={() => img.id !== current.id && onSelect(img)}
+              className={`px-2 py-1 rounded-md max-w-[16rem] truncate transition-colors ${img.id === current.id ? 'bg-cyan-600 text-white font-bold' : 'bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:text-cyan-600 dark:hover:text-cyan-400'}`}
+              title={labelFor(img)}
+            >
+              {labelFor(img)}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+
+      {showSiblings && siblings.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 mb-6">
+          {[current, ...siblings].map(img => (
+            <div
+              key={img.id}
+              className={`rounded-2xl overflow-hidden border transition-all bg-white dark:bg-slate-900/50 ${img.id === current.id ? 'border-cyan-500 ring-2 ring-cyan-500/40' : 'border-slate-200 dark:border-white/10 hover:border-cyan-500/50'}`}
+            >
+              <img
+                src={img.data}
+                alt={img.prompt}
+                onClick={() => img.id !== current.id && onSelect(img)}
+                className={`w-full h-auto object-contain bg-checkered ${img.id !== current.id ? 'cursor-pointer' : ''}`}
+              />
+              <div className="p-3 flex items-center justify-between gap-2">
+                <p className="text-xs font-medium text-slate-700 dark:text-slate-300">“{labelFor(img)}”</p>
+                {onCompare && img.id !== current.id && (
+                  <button
+                    onClick={() => onCompare(current, img)}
+                    className="p-1.5 rounded-lg text-slate-500 dark:text-slate-400 hover:text-cyan-600 dark:hover:text-cyan-400 hover:bg-slate-100 dark:hover:bg-slate-800 transition-colors shrink-0"
+                    title={t.versions.compareWithCurrent}
+                  >
+                    <Columns className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ul className="space-y-2">
+        {renderNode(root, new Set())}
+      </ul>
+    </div>
+  );
+};
+
+export default VersionTree;
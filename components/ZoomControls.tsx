@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { ZoomIn, ZoomOut } from 'lucide-react';
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+
+// Shared zoom state for the fullscreen viewers
+export const useZoom = () => {
+  const [zoomLevel, setZoomLevel] = useState(1);
+
+  return {
+    zoomLevel,
+    zoomIn: () => setZoomLevel(prev => Math.min(prev + ZOOM_STEP, MAX_ZOOM)),
+    zoomOut: () => setZoomLevel(prev => Math.max(prev - ZOOM_STEP, MIN_ZOOM)),
+    resetZoom: () => setZoomLevel(1)
+  };
+};
+
+interface ZoomControlsProps {
+  zoomLevel: number;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+}
+
+const ZoomControls: React.FC<ZoomControlsProps> = ({ zoomLevel, onZoomIn, onZoomOut, onReset }) => {
+  return (
+    <div className="flex gap-2 pointer-events-auto bg-white/10 backdrop-blur-md p-1 rounded-lg border border-black/5 dark:border-white/10">
+        <button onClick={onZoomOut} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Zoom Out">
+            <ZoomOut className="w-5 h-5" />
+        </button>
+        <button onClick={onReset} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Reset Zoom">
+            <span className="text-xs font-bold">{Math.round(zoomLevel * 100)}%</span>
+        </button>
+        <button onClick={onZoomIn} className="p-2 hover:bg-black/10 dark:hover:bg-white/10 rounded-md text-slate-800 dark:text-slate-200 transition-colors" title="Zoom In">
+            <ZoomIn className="w-5 h-5" />
+        </button>
+    </div>
+  );
+};
+
+export default ZoomControls;
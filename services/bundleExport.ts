@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from 'jszip';
+import { GeneratedImage, UiLanguage } from '../types';
+import { translations, getLevelLabel, getStyleLabel, languageNames } from '../translations';
+import { markdownToHtml, spansToHtml, parseInline, escapeHtml } from '../utils/markdown';
+import { exportImageData } from '../utils/overlay';
+import { dataUrlToBlob, parseDataUrl } from '../utils/dataUrl';
+import { slugify } from '../utils/download';
+import { sourceHref } from '../utils/sourceDocuments';
+import { describeFormat } from '../utils/imageFormat';
+import { LibraryExport, LIBRARY_EXPORT_VERSION } from './storageService';
+
+// Zip bundle for LMS and wiki publishing:
+//   article.md   Markdown with front matter, pointing at the image file
+//   image.png    The infographic (with its label overlay), .jpg when the source is JPEG
+//   sources.md   Numbered list of the research sources
+//   index.html   Single-file page with the image embedded as a data URL
+//   infogenius.json  The full record, so the bundle can be imported back losslessly.
+//                Its `data` names a file in the folder instead of holding base64.
+
+export const BUNDLE_RECORD_FILE = 'infogenius.json';
+
+const IMAGE_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+// Double-quoted JSON strings are valid YAML scalars, which saves writing an escaper
+const yamlString = (value: string) => JSON.stringify(value);
+
+const buildFrontMatter = (image: GeneratedImage, imageFile: string): string => {
+  const fields: [string, string | undefined][] = [
+    ['topic', image.prompt],
+    ['level', image.level],
+    ['style', image.style],
+    ['language', image.language],
+    ['aspect_ratio', image.aspectRatio],
+    ['resolution', image.resolution],
+    ['timestamp', new Date(image.timestamp).toISOString()],
+    ['image', imageFile],
+    ['image_prompt', image.imagePrompt]
+  ];
+  const lines = fields.filter(([, value]) => value).map(([key, value]) => `${key}: ${yamlString(value!)}`);
+  return ['---', ...lines, '---'].join('\n');
+};
+
+const buildMarkdown = (image: GeneratedImage, imageFile: string, lang: UiLanguage): string => {
+  const t = translations[lang];
+  const parts = [buildFrontMatter(image, imageFile), '', `![${image.prompt.replace(/[[\]]/g, '')}](${imageFile})`];
+  if (image.facts && image.facts.length > 0) {
+    parts.push('', `## ${t.bundle.facts}`, '', ...image.facts.map(fact => `- ${fact}`));
+  }
+  if (image.articleContent) {
+    parts.push('', image.articleContent.trim());
+  }
+  parts.push('', `_${t.bundle.sourcesNote}_`);
+  return parts.join('\n') + '\n';
+};
+
+const buildSources = (image: GeneratedImage, lang: UiLanguage): string => {
+  const sources = image.searchResults || [];
+  const lines = sources.map((source, i) => {
+    const title = source.title.replace(/[[\]]/g, '');
+    const href = sourceHref(source);
+    return href ? `${i + 1}. [${title}](${href})` : `${i + 1}. ${title} (${translations[lang].documents.uploaded})`;
+  });
+  return [`# ${translations[lang].bundle.sources}`, '', ...lines].join('\n') + '\n';
+};
+
+const HTML_STYLES = `
+  body { margin: 0; background: #f8fafc; color: #1e293b; font: 17px/1.65 Georgia, 'Times New Roman', serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 48px 24px; }
+  header p, footer { font-family: system-ui, sans-serif; font-size: 13px; color: #64748b; }
+  h1, h2, h3, h4 { font-family: system-ui, sans-serif; line-height: 1.25; color: #0f172a; }
+  h3 { color: #0e7490; }
+  figure { margin: 32px 0; }
+  figure img { display: block; max-width: 100%; max-height: 90vh; margin: 0 auto; border-radius: 12px; border: 1px solid #e2e8f0; }
+  figcaption { font: italic 13px system-ui, sans-serif; color: #64748b; text-align: center; margin-top: 8px; }
+  a { color: #4f46e5; word-break: break-word; }
+  code { font-size: 0.9em; background: #e2e8f0; padding: 1px 4px; border-radius: 4px; }
+  section { margin-top: 40px; padding-top: 16px; border-top: 1px solid #e2e8f0; }
+`;
+
+const buildHtml = (image: GeneratedImage, imageData: string, lang: UiLanguage): string => {
+  const t = translations[lang];
+  const meta = [
+    image.level && getLevelLabel(lang, image.level),
+    image.style && getStyleLabel(lang, image.style),
+    image.language && languageNames[image.language],
+    describeFormat(image),
+    new Date(image.timestamp).toLocaleString()
+  ].filter(Boolean).map(value => escapeHtml(value as string)).join(' &middot; ');
+
+  const facts = image.facts && image.facts.length > 0
+    ? `<section><h2>${escapeHtml(t.bundle.facts)}</h2><ul>${image.facts.map(fact => `<li>${spansToHtml(parseInline(fact))}</li>`).join('')}</ul></section>`
+    : '';
+  const sources = image.searchResults && image.searchResults.length > 0
+    ? `<section><h2>${escapeHtml(t.bundle.sources)}</h2><ol>${image.searchResults.map(source =>
+        `<li>${spansToHtml([{ text: source.title, bold: false, italic: false, code: false, href: sourceHref(source) || undefined }])}</li>`).join('')}</ol></section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(image.prompt)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<header>
+<h1>${escapeHtml(image.prompt)}</h1>
+<p>${meta}</p>
+</header>
+<figure>
+<img src="${imageData}" alt="${escapeHtml(image.prompt)}">
+<figcaption>${escapeHtml(image.prompt)}</figcaption>
+</figure>
+${facts}
+<article>
+${image.articleContent ? markdownToHtml(image.articleContent) : ''}
+</article>
+${sources}
+<footer><p>InfoGenius Free &middot; ${escapeHtml(t.article.generatedBy)}</p></footer>
+</main>
+</body>
+</html>
+`;
+};
+
+/**
+ * Builds the zip bundle. Everything sits in one folder named after the topic,
+ * so unpacking several bundles side by side does not mix their files.
+ */
+export const createExportBundle = async (image: GeneratedImage, lang: UiLanguage): Promise<Blob> => {
+  const imageData = await exportImageData(image);
+  const imageFile = parseDataUrl(imageData).mimeType === 'image/jpeg' ? 'image.jpg' : 'image.png';
+
+  const zip = new JSZip();
+  const folder = zip.folder(slugify(image.prompt))!;
+  folder.file('article.md', buildMarkdown(image, imageFile, lang));
+  folder.file(imageFile, dataUrlToBlob(imageData));
+  folder.file('sources.md', buildSources(image, lang));
+  folder.file('index.html', buildHtml(image, imageData, lang));
+
+  // The record keeps the overlay editable, so it points at the image without it burned in
+  let sourceFile = imageFile;
+  if (imageData !== image.data) {
+    sourceFile = `source.${IMAGE_EXTENSIONS[parseDataUrl(image.data).mimeType] || 'png'}`;
+    folder.file(sourceFile, dataUrlToBlob(image.data));
+  }
+  const record: LibraryExport = {
+    app: 'infogenius',
+    version: LIBRARY_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    images: [{ ...image, data: sourceFile }]
+  };
+  folder.file(BUNDLE_RECORD_FILE, JSON.stringify(record, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+};
@@ -2,64 +2,14 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, Modality } from "@google/genai";
-import { AspectRatio, ComplexityLevel, VisualStyle, ResearchResult, SearchResultItem, Language } from "../types";
-
-// Store custom keys provided by the user
-let customKeys: string[] = [];
-
-export const setApiKeys = (keys: string[]) => {
-  customKeys = keys.filter(k => k.trim().length > 0);
-};
-
-// Helper to create AI instance with a specific key
-const createAi = (key?: string) => {
-  return new GoogleGenAI({ apiKey: key || process.env.API_KEY });
-};
-
-// Wrapper to handle key rotation and retries
-const executeWithRetry = async <T>(operation: (ai: GoogleGenAI) => Promise<T>): Promise<T> => {
-  // If no custom keys, just use the environment default (system account)
-  if (customKeys.length === 0) {
-    return operation(createAi());
-  }
-
-  let lastError: any;
-
-  // Try each custom key in order
-  for (const key of customKeys) {
-    try {
-      const ai = createAi(key);
-      return await operation(ai);
-    } catch (err: any) {
-      lastError = err;
-      
-      // Check if error is related to quota, permissions, or validity
-      const isRetryable = 
-        err.message?.includes('429') || // Too Many Requests
-        err.message?.includes('403') || // Permission Denied
-        err.message?.includes('quota') || 
-        err.message?.includes('key') ||
-        err.message?.includes('PERMISSION_DENIED') ||
-        err.message?.includes('RESOURCE_EXHAUSTED');
-
-      if (!isRetryable) {
-        throw err; // Don't retry for other errors (e.g. bad request, safety filter)
-      }
-      
-      console.warn(`API Key failed, rotating to next key... (${err.message})`);
-      // Continue loop to try next key
-    }
-  }
-
-  // If we ran out of keys or all failed
-  throw lastError || new Error("All API keys failed.");
-};
-
-// Use Gemini 2.5 Flash as it is widely available and performant
-const TEXT_MODEL = 'gemini-2.5-flash';
-const IMAGE_MODEL = 'gemini-2.5-flash-image';
-const EDIT_MODEL = 'gemini-2.5-flash-image';
+import { ComplexityLevel, VisualStyle, ResearchResult, ResearchDraft, ImageVariant, ImageFormat, Language, LegibilityFix, FactCheck, FactVerdict, SearchResultItem, SourceDocument } from "../types";
+import { getProvider, getHealthyKeyCount } from "./providers";
+import { settleWithConcurrency } from "../utils/concurrency";
+import { getMaskRegion, cropImage, compositeRegion } from "../utils/imageMask";
+import { resolveCitations, extractInlineCitations } from "../utils/citations";
+import { orientationOf } from "../utils/imageFormat";
+import { isRecord, isOneOf } from "../utils/guards";
+import { RESEARCH_JSON_SCHEMA, ResearchPayload, ResearchValidationError, parseResearchResponse, parsePartialResearch, extractJsonObject } from "./researchSchema";
 
 const getLevelInstruction = (level: ComplexityLevel): string => {
   switch (level) {
@@ -89,192 +39,431 @@ const getStyleInstruction = (style: VisualStyle): string => {
   }
 };
 
+// How many times a malformed research answer is sent back to the model before falling back
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// Shown in place of the article when no valid one could be obtained, in the content language
+const ARTICLE_FALLBACK: Record<Language, string> = {
+  English: "The explanatory article could not be generated.",
+  Spanish: "No se pudo generar el artículo explicativo.",
+  French: "L'article explicatif n'a pas pu être généré.",
+  German: "Der erklärende Artikel konnte nicht erstellt werden.",
+  Mandarin: "无法生成说明文章。",
+  Japanese: "解説記事を生成できませんでした。",
+  Hindi: "व्याख्यात्मक लेख उत्पन्न नहीं किया जा सका।",
+  Arabic: "تعذّر إنشاء المقال التوضيحي.",
+  Portuguese: "Não foi possível gerar o artigo explicativo.",
+  Russian: "Не удалось создать пояснительную статью."
+};
+
+const buildRepairPrompt = (previousAnswer: string, error: ResearchValidationError, language: Language): string => `
+  Your previous answer could not be used: ${error.message}.
+  Return the corrected answer as a single JSON object with the keys "facts" (array of 3 to 5 strings),
+  "imagePrompt" (string) and "articleContent" (Markdown string). Keep every text in ${language}.
+  Reuse the content of the previous answer wherever it is valid.
+
+  Previous answer:
+  ${previousAnswer.slice(0, 20000)}
+`;
+
+const isPdf = (document: SourceDocument) => document.mimeType === 'application/pdf';
+
+// Numbered list of the user's documents: text goes inline, PDFs are attached in the same order
+const buildDocumentListing = (documents: SourceDocument[]): string => {
+  let attached = 0;
+  return documents.map((document, i) => isPdf(document)
+    ? `[${i + 1}] ${document.name} (attached PDF #${++attached})`
+    : `[${i + 1}] ${document.name}\n<<<\n${document.content}\n>>>`
+  ).join('\n\n');
+};
+
+const buildDocumentsInstruction = (documents: SourceDocument[]): string => `
+    **IMPORTANT: Base everything ONLY on the source documents below. Do not use outside knowledge or web search.**
+    If the documents do not cover something, leave it out rather than guessing.
+    Cite the documents by number in square brackets right after every fact and every claim in the article, e.g. [1] or [1, 3].
+    Do not put citations in the image prompt.
+
+    Source documents:
+    ${buildDocumentListing(documents)}
+  `;
+
+const toAttachments = (documents: SourceDocument[]) => documents.filter(isPdf).map(document => ({ name: document.name, data: document.content }));
+
+const buildReferencesInstruction = (count: number): string => `
+    The user attached ${count} reference image(s), after any PDF documents: e.g. a whiteboard photo, a rough sketch or an existing diagram.
+    Use them to understand the subject, and make the imagePrompt describe an infographic that follows their layout, structure and content.
+  `;
+
+/**
+ * Researches the topic and plans the infographic. `onProgress` is called as the
+ * answer streams in, so the UI can show facts and the article before it is done.
+ * With `documents`, research is grounded on them alone instead of web search;
+ * `references` are images (base64 data URLs) the plan should follow.
+ */
 export const researchTopicForPrompt = async (
   topic: string, 
   level: ComplexityLevel, 
   style: VisualStyle,
-  language: Language
+  language: Language,
+  signal?: AbortSignal,
+  onProgress?: (draft: ResearchDraft) => void,
+  documents: SourceDocument[] = [],
+  references: string[] = []
 ): Promise<ResearchResult> => {
-  
-  return executeWithRetry(async (ai) => {
-    const levelInstr = getLevelInstruction(level);
-    const styleInstr = getStyleInstruction(style);
-
-    const systemPrompt = `
-      You are an expert visual researcher and scientific writer.
-      Your goal is to research the topic: "${topic}" and create a plan for an infographic AND a written explanatory article.
-      
-      **IMPORTANT: Use the Google Search tool to find the most accurate, up-to-date information about this topic.**
-      
-      Context:
-      ${levelInstr}
-      ${styleInstr}
-      Language: ${language} (Write ALL text in this language)
-      
-      Please provide your response in the following format EXACTLY:
-      
-      FACTS:
-      - [Fact 1]
-      - [Fact 2]
-      - [Fact 3]
-      
-      ARTICLE:
-      [Write a comprehensive explanatory article about the topic suitable for the target audience. 
-      Use Markdown formatting. 
-      Include a Title. 
-      Structure it with an Introduction, Key Concepts/Details, and Conclusion. 
-      Make it informative and educational.]
-
-      IMAGE_PROMPT:
-      [A highly detailed image generation prompt describing the visual composition, colors, and layout for the infographic. Do not include citations in the prompt.]
-    `;
-
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: systemPrompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-
-    const text = response.text || "";
+  const levelInstr = getLevelInstruction(level);
+  const styleInstr = getStyleInstruction(style);
+  const provider = getProvider('research');
+  const useDocuments = documents.length > 0;
+
+  const systemPrompt = `
+    You are an expert visual researcher and scientific writer.
+    Your goal is to research the topic: "${topic}" and create a plan for an infographic AND a written explanatory article.
+    
+    ${useDocuments ? buildDocumentsInstruction(documents) : '**IMPORTANT: Use the Google Search tool to find the most accurate, up-to-date information about this topic.**'}
+    ${references.length > 0 ? buildReferencesInstruction(references.length) : ''}
     
-    // Parse Facts
-    const factsMatch = text.match(/FACTS:\s*([\s\S]*?)(?=ARTICLE:|IMAGE_PROMPT:|$)/i);
-    const factsRaw = factsMatch ? factsMatch[1].trim() : "";
-    const facts = factsRaw.split('\n')
-      .map(f => f.replace(/^-\s*/, '').trim())
-      .filter(f => f.length > 0)
-      .slice(0, 5);
-
-    // Parse Article
-    const articleMatch = text.match(/ARTICLE:\s*([\s\S]*?)(?=IMAGE_PROMPT:|$)/i);
-    const articleContent = articleMatch ? articleMatch[1].trim() : "Conteúdo explicativo não gerado.";
-
-    // Parse Prompt
-    const promptMatch = text.match(/IMAGE_PROMPT:\s*([\s\S]*?)$/i);
-    const imagePrompt = promptMatch ? promptMatch[1].trim() : `Create a detailed infographic about ${topic}. ${levelInstr} ${styleInstr}`;
-
-    // Extract Grounding (Search Results)
-    const searchResults: SearchResultItem[] = [];
-    const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+    Context:
+    ${levelInstr}
+    ${styleInstr}
+    Language: ${language} (Write ALL text in this language)
     
-    if (chunks) {
-      chunks.forEach(chunk => {
-        if (chunk.web?.uri && chunk.web?.title) {
-          searchResults.push({
-            title: chunk.web.title,
-            url: chunk.web.uri
-          });
-        }
+    Respond with a single JSON object and nothing else (no Markdown fences, no commentary), with exactly these keys in this order:
+    {
+      "facts": ["3 to 5 short, verifiable key facts"],
+      "imagePrompt": "A highly detailed image generation prompt describing the visual composition, colors, and layout for the infographic. Do not include citations in the prompt.",
+      "articleContent": "A comprehensive explanatory article about the topic suitable for the target audience. Use Markdown formatting. Include a Title. Structure it with an Introduction, Key Concepts/Details, and Conclusion. Make it informative and educational."
+    }
+  `;
+
+  const { text, sources, passages = [] } = await provider.researchText({
+    prompt: systemPrompt,
+    attachments: [
+      ...toAttachments(documents),
+      ...references.map((reference, i) => ({ name: `reference-${i + 1}`, data: reference }))
+    ],
+    useSearch: !useDocuments,
+    responseSchema: RESEARCH_JSON_SCHEMA,
+    signal,
+    onText: onProgress && (partialText => {
+      const partial = parsePartialResearch(partialText);
+      // Citation markers are stripped from drafts too, since the image may start from them
+      const cited = useDocuments ? extractInlineCitations(partial.facts || [], partial.articleContent || '', documents.length) : null;
+      onProgress({
+        facts: cited ? cited.facts : partial.facts || [],
+        articleContent: cited && partial.articleContent ? cited.articleContent : partial.articleContent,
+        imagePrompt: partial.complete.includes('imagePrompt') ? partial.imagePrompt?.trim() : undefined
+      });
+    })
+  });
+
+  // Validate, and ask the model to repair its own output before giving up.
+  // Valid sections from every attempt are kept, so a repair can only add information.
+  let answer = text;
+  let known: Partial<ResearchPayload> = {};
+  let payload: ResearchPayload | null = null;
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    try {
+      payload = parseResearchResponse(answer);
+      break;
+    } catch (err) {
+      if (!(err instanceof ResearchValidationError)) throw err;
+      known = { ...known, ...err.partial };
+      if (attempt === MAX_REPAIR_ATTEMPTS) {
+        console.warn(`${err.message}; using fallbacks after ${MAX_REPAIR_ATTEMPTS} repair attempts`);
+        break;
+      }
+      console.warn(`${err.message}; requesting repair (attempt ${attempt + 1})`);
+      const repaired = await provider.researchText({
+        prompt: buildRepairPrompt(answer, err, language),
+        responseSchema: RESEARCH_JSON_SCHEMA,
+        signal
       });
+      answer = repaired.text;
     }
+  }
 
-    // Remove duplicates based on URL
-    const uniqueResults = Array.from(new Map(searchResults.map(item => [item.url, item])).values());
+  const result = payload || known;
+  const imagePrompt = result.imagePrompt || `Create a detailed infographic about ${topic}. ${levelInstr} ${styleInstr}`;
 
+  if (useDocuments) {
+    // The documents are the sources; the model cited them by number in the text
+    const cited = extractInlineCitations(result.facts || [], result.articleContent || '', documents.length);
     return {
-      imagePrompt: imagePrompt,
-      facts: facts,
-      searchResults: uniqueResults,
-      articleContent: articleContent
+      imagePrompt,
+      facts: cited.facts,
+      searchResults: documents.map(document => ({ title: document.name, url: document.name, document: true })),
+      articleContent: cited.articleContent || ARTICLE_FALLBACK[language],
+      citations: cited.citations
     };
+  }
+
+  // Remove duplicates based on URL
+  const uniqueResults = Array.from(new Map(sources.map(item => [item.url, item])).values());
+  const uniqueIndex = new Map(uniqueResults.map((item, index) => [item.url, index]));
+
+  const facts = result.facts || [];
+  const articleContent = result.articleContent || ARTICLE_FALLBACK[language];
+  // Passages cite the raw sources; point them at the de-duplicated list instead
+  const citations = resolveCitations(
+    passages.map(passage => ({
+      text: passage.text,
+      sources: Array.from(new Set(passage.sources.map(index => uniqueIndex.get(sources[index]?.url)).filter((index): index is number => index !== undefined)))
+    })),
+    facts,
+    result.articleContent ? articleContent : ''
+  );
+
+  return {
+    imagePrompt,
+    facts,
+    searchResults: uniqueResults,
+    articleContent,
+    citations
+  };
+};
+
+const FACT_VERDICTS: FactVerdict[] = ['supported', 'unsupported', 'contradicted'];
+
+const FACT_CHECK_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: FACT_VERDICTS },
+    confidence: { type: 'number' },
+    note: { type: 'string' }
+  },
+  required: ['verdict', 'confidence']
+};
+
+const checkFact = async (fact: string, sources: SearchResultItem[], language: Language, documents: SourceDocument[], signal?: AbortSignal): Promise<FactCheck> => {
+  const grounding = documents.length > 0
+    ? `Check the claim ONLY against the source documents below; do not use outside knowledge.
+
+    Source documents:
+    ${buildDocumentListing(documents)}`
+    : `**Use the Google Search tool**, starting with the sources the claim was researched from.
+
+    Sources used during research:
+    ${sources.length > 0 ? sources.map(source => `- ${source.title}: ${source.url}`).join('\n    ') : '- (none)'}`;
+  const prompt = `
+    You are a careful fact-checker. Verify the claim below for a student audience.
+    ${grounding}
+
+    Claim: ${JSON.stringify(fact)}
+
+    Verdicts:
+    - "supported": reliable sources state the claim, or something equivalent
+    - "contradicted": reliable sources state something incompatible with the claim
+    - "unsupported": no reliable evidence either way
+
+    Respond with a single JSON object and nothing else:
+    {"verdict": "supported" | "unsupported" | "contradicted", "confidence": number between 0 and 1, "note": "one short sentence in ${language} explaining the verdict"}
+  `;
+  const { text } = await getProvider('research').researchText({
+    prompt,
+    attachments: toAttachments(documents),
+    useSearch: documents.length === 0,
+    responseSchema: FACT_CHECK_JSON_SCHEMA,
+    signal
   });
+
+  const json = extractJsonObject(text);
+  let answer: unknown;
+  try {
+    answer = json ? JSON.parse(json) : undefined;
+  } catch {
+    answer = undefined;
+  }
+  if (!isRecord(answer) || !isOneOf(FACT_VERDICTS, answer.verdict) || typeof answer.confidence !== 'number' || !Number.isFinite(answer.confidence)) {
+    throw new Error("Fact-check response does not match the schema");
+  }
+  return {
+    fact,
+    verdict: answer.verdict,
+    // Some models answer in percent
+    confidence: Math.min(1, Math.max(0, answer.confidence > 1 ? answer.confidence / 100 : answer.confidence)),
+    note: typeof answer.note === 'string' && answer.note.trim() ? answer.note.trim() : undefined
+  };
 };
 
-export const generateInfographicImage = async (prompt: string): Promise<string> => {
-  return executeWithRetry(async (ai) => {
-    // Use Gemini 2.5 Flash Image for generation
-    const response = await ai.models.generateContent({
-      model: IMAGE_MODEL,
-      contents: {
-        parts: [{ text: prompt }]
-      },
-    });
-
-    // Check all parts for image data as 2.5 Flash Image can return mixed content
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-        for (const part of parts) {
-            if (part.inlineData && part.inlineData.data) {
-                 return `data:image/png;base64,${part.inlineData.data}`;
-            }
-        }
+/**
+ * Fact-check pass: re-queries every fact against search, or against `documents`
+ * when research was grounded on them, one request per fact.
+ * Facts whose check fails are left out of the result, i.e. shown as not verified.
+ */
+export const verifyFacts = async (
+  facts: string[],
+  sources: SearchResultItem[],
+  language: Language,
+  signal?: AbortSignal,
+  documents: SourceDocument[] = []
+): Promise<FactCheck[]> => {
+  const settled = await settleWithConcurrency(facts, getHealthyKeyCount(), fact => checkFact(fact, sources, language, documents, signal));
+  signal?.throwIfAborted();
+
+  const checks: FactCheck[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      checks.push(result.value);
+    } else {
+      console.warn(`Fact check ${i + 1} failed`, result.reason);
     }
-    throw new Error("Failed to generate image");
   });
+  return checks;
 };
 
-export const fixInfographicImage = async (currentImageBase64: string, correctionPrompt: string): Promise<string> => {
-  return executeWithRetry(async (ai) => {
-    const cleanBase64 = currentImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
-
-    const prompt = `
-      Edit this image. 
-      Goal: Simplify and Fix.
-      Instruction: ${correctionPrompt}.
-      Ensure the design is clean and any text is large and legible.
-    `;
-
-    const response = await ai.models.generateContent({
-      model: EDIT_MODEL,
-      contents: {
-        parts: [
-          { inlineData: { mimeType: 'image/jpeg', data: cleanBase64 } },
-          { text: prompt }
-        ]
-      },
-    });
-
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-        for (const part of parts) {
-            if (part.inlineData && part.inlineData.data) {
-                 return `data:image/png;base64,${part.inlineData.data}`;
-            }
-        }
-    }
-    throw new Error("Failed to fix image");
+/**
+ * Text actually sent to image generation: the planned prompt plus the facts the image should feature.
+ * Facts the fact-check pass found contradicted are left out.
+ */
+export const composeImagePrompt = (imagePrompt: string, facts: string[], factChecks: FactCheck[] = []): string => {
+  const contradicted = new Set(factChecks.filter(check => check.verdict === 'contradicted').map(check => check.fact));
+  const featured = facts.filter(fact => !contradicted.has(fact));
+  if (featured.length === 0) return imagePrompt;
+  return `${imagePrompt}\n\nKey facts to feature:\n${featured.map(fact => `- ${fact}`).join('\n')}`;
+};
+
+const REFERENCE_NOTE = "Follow the layout, structure and subject of the attached reference image(s), redrawn as a clean, polished infographic.";
+
+// Image models follow the requested shape better when the prompt plans the layout for it
+const buildFormatNote = (format: ImageFormat): string =>
+  `Compose the layout for a ${orientationOf(format.aspectRatio)} ${format.aspectRatio} canvas.`;
+
+// `prompt` is sent as is; generateInfographicVariants adds the format and reference notes
+export const generateInfographicImage = async (prompt: string, signal?: AbortSignal, references: string[] = [], format?: ImageFormat): Promise<string> => {
+  return getProvider('image').generateImage({
+    prompt,
+    references,
+    format,
+    signal
   });
 };
 
-export const editInfographicImage = async (currentImageBase64: string, editPrompt: string): Promise<string> => {
-  return executeWithRetry(async (ai) => {
-    const cleanBase64 = currentImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
-    
-    // We need to determine mimeType. Assuming typical base64 strings from data URL.
-    // If it starts with data:image/png;base64,... mimeType is image/png
-    let mimeType = 'image/png';
-    const match = currentImageBase64.match(/^data:(image\/[a-zA-Z+]+);base64,/);
-    if (match) {
-        mimeType = match[1];
-    }
+// The full text sent for one variant, so it can be recorded as the image's prompt.
+// Each variant gets a short note so the model explores a different layout from the same plan.
+const buildVariantPrompt = (prompt: string, index: number, count: number, references: string[], format?: ImageFormat): string => {
+  const notes = [
+    format && buildFormatNote(format),
+    references.length > 0 && REFERENCE_NOTE,
+    count > 1 && `Variant ${index + 1} of ${count}: explore a distinct composition and layout.`
+  ].filter(Boolean);
+  return [prompt, ...notes].join('\n\n');
+};
+
+/**
+ * Renders `count` candidates from one prompt, never running more requests at once than
+ * the key pool has healthy keys. Failed variants are dropped; rejects only if all fail.
+ */
+export const generateInfographicVariants = async (prompt: string, count: number, signal?: AbortSignal, references: string[] = [], format?: ImageFormat): Promise<ImageVariant[]> => {
+  const prompts = Array.from({ length: Math.max(1, count) }, (_, i) => buildVariantPrompt(prompt, i, count, references, format));
+  const settled = await settleWithConcurrency(prompts, getHealthyKeyCount(), p => generateInfographicImage(p, signal, references, format));
+  signal?.throwIfAborted();
 
-    const response = await ai.models.generateContent({
-      model: EDIT_MODEL,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              data: cleanBase64,
-              mimeType: mimeType,
-            },
-          },
-          {
-            text: editPrompt,
-          },
-        ],
-      },
-    });
-
-    const parts = response.candidates?.[0]?.content?.parts;
-    if (parts) {
-        for (const part of parts) {
-            if (part.inlineData && part.inlineData.data) {
-                 return `data:image/png;base64,${part.inlineData.data}`;
-            }
-        }
+  const variants: ImageVariant[] = [];
+  settled.forEach((result, i) => {
+    if (result.status === 'fulfilled') {
+      variants.push({ prompt: prompts[i], data: result.value, format });
+    } else {
+      console.warn(`Variant ${i + 1} failed`, result.reason);
     }
-    throw new Error("Failed to edit image");
   });
+
+  if (variants.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+  return variants;
+};
+
+export const fixInfographicImage = async (currentImageBase64: string, correctionPrompt: string, signal?: AbortSignal): Promise<string> => {
+  const prompt = `
+    Edit this image. 
+    Goal: Simplify and Fix.
+    Instruction: ${correctionPrompt}.
+    Ensure the design is clean and any text is large and legible.
+  `;
+
+  return getProvider('edit').editImage({ image: currentImageBase64, prompt, signal });
+};
+
+const LEGIBILITY_INSTRUCTIONS: Record<LegibilityFix, string> = {
+  enlargeText: "Enlarge every text label so it is easy to read at a glance",
+  reduceClutter: "Reduce clutter: remove small decorative details and give each element more space",
+  fixSpelling: "Correct any misspelled, garbled or invented words in the labels"
+};
+
+export const LEGIBILITY_FIXES = Object.keys(LEGIBILITY_INSTRUCTIONS) as LegibilityFix[];
+
+/**
+ * Simplify-and-fix pass with preset corrections. The content language keeps
+ * spelling fixes from "correcting" labels into English.
+ */
+export const fixInfographicLegibility = async (
+  currentImageBase64: string,
+  fixes: LegibilityFix[],
+  language?: Language,
+  signal?: AbortSignal
+): Promise<string> => {
+  const instructions = fixes.map(fix => LEGIBILITY_INSTRUCTIONS[fix]);
+  if (language && fixes.includes('fixSpelling')) {
+    instructions.push(`Keep all text in ${language}`);
+  }
+  return fixInfographicImage(currentImageBase64, instructions.join('; '), signal);
+};
+
+export const editInfographicImage = async (currentImageBase64: string, editPrompt: string, signal?: AbortSignal): Promise<string> => {
+  return getProvider('edit').editImage({ image: currentImageBase64, prompt: editPrompt, signal });
+};
+
+/**
+ * Edits only the area painted on `mask`. The marked region is cropped with some context,
+ * edited on its own and composited back, so the rest of the image stays untouched.
+ */
+export const editInfographicRegion = async (currentImageBase64: string, mask: string, editPrompt: string, signal?: AbortSignal): Promise<string> => {
+  const region = await getMaskRegion(mask);
+  if (!region) throw new Error("The edit mask is empty");
+
+  const crop = await cropImage(currentImageBase64, region);
+  const prompt = `
+    This image is a cropped detail of a larger infographic.
+    Instruction: ${editPrompt}.
+    Change only what the instruction asks for. Keep the framing, scale, colors and style identical,
+    so the result can be pasted back into the full image seamlessly.
+  `;
+  const edited = await getProvider('edit').editImage({ image: crop, prompt, signal });
+  signal?.throwIfAborted();
+  return compositeRegion(currentImageBase64, edited, region, mask);
+};
+
+const TRANSLATION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    translations: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['translations']
+};
+
+/**
+ * Translates overlay labels, keeping their order. Rejects unless every label came back.
+ */
+export const translateLabels = async (labels: string[], language: Language, signal?: AbortSignal): Promise<string[]> => {
+  const prompt = `
+    Translate each infographic label below into ${language}. Keep every translation as short as the original,
+    and keep numbers, units and proper names unchanged.
+    Respond with a single JSON object {"translations": [...]} with one string per label, in the same order.
+
+    Labels: ${JSON.stringify(labels)}
+  `;
+  const { text } = await getProvider('research').researchText({ prompt, responseSchema: TRANSLATION_JSON_SCHEMA, signal });
+
+  const json = extractJsonObject(text);
+  let translations: unknown;
+  try {
+    translations = json ? JSON.parse(json).translations : undefined;
+  } catch {
+    translations = undefined;
+  }
+  if (!Array.isArray(translations) || translations.length !== labels.length || !translations.every(t => typeof t === 'string')) {
+    throw new Error("Translation response does not match the labels");
+  }
+  return translations;
 };
@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import JSZip from 'jszip';
+import { Citation, FactCheck, GeneratedImage, OverlayItem, SearchResultItem } from '../types';
+import { complexityLevels, visualStyles, languageNames, translations } from '../translations';
+import { toDataUrl } from '../utils/dataUrl';
+import { isRecord, isOneOf } from '../utils/guards';
+import { ASPECT_RATIOS, IMAGE_RESOLUTIONS } from '../utils/imageFormat';
+import { BUNDLE_RECORD_FILE } from './bundleExport';
+
+// Brings exported entries back into the library. Accepted inputs:
+//   - JSON from "Export" in the library ({ app, version, images }), a bare array
+//     of records or a single record
+//   - zip bundles from the article export, one or several per archive; the
+//     record file is used when present, article.md and sources.md otherwise
+
+export interface ImportResult {
+  images: GeneratedImage[]; // Valid entries not yet in the library
+  duplicates: number;
+  invalid: number;
+}
+
+type Candidate = Record<string, unknown>;
+
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg|webp|gif);base64,[A-Za-z0-9+/]+=*$/;
+const MIME_BY_EXTENSION: Record<string, string> = { png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', webp: 'image/webp', gif: 'image/gif' };
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+const isFraction = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isWebUrl = (value: unknown): value is string => isString(value) && /^https?:\/\//i.test(value);
+
+const validOverlayItem = (item: unknown): item is OverlayItem => {
+  if (!isRecord(item) || !isString(item.id) || !isFraction(item.x) || !isFraction(item.y) || !isString(item.color)) return false;
+  if (item.type === 'label') {
+    return typeof item.text === 'string' && isFraction(item.fontSize) && isString(item.haloColor) && typeof item.bold === 'boolean';
+  }
+  return item.type === 'arrow' && isFraction(item.x2) && isFraction(item.y2) && isFraction(item.width);
+};
+
+const validCitation = (citation: unknown): citation is Citation => {
+  if (!isRecord(citation) || !Array.isArray(citation.sources) || !citation.sources.every(source => Number.isInteger(source) && source >= 0)) return false;
+  if (citation.type === 'fact') return isString(citation.fact);
+  return citation.type === 'article' && Number.isInteger(citation.offset) && (citation.offset as number) >= 0;
+};
+
+const validFactCheck = (check: unknown): check is FactCheck => {
+  if (!isRecord(check) || !isString(check.fact) || !['supported', 'unsupported', 'contradicted'].includes(check.verdict as string)) return false;
+  return isFraction(check.confidence) && check.confidence >= 0 && check.confidence <= 1 && (check.note === undefined || typeof check.note === 'string');
+};
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Checks an untrusted record. Required fields must be valid; optional fields that
+ * do not match the expected shape are dropped rather than failing the whole entry.
+ */
+const validateRecord = (raw: unknown): Omit<GeneratedImage, 'id'> & { id?: string } | null => {
+  if (!isRecord(raw) || !isString(raw.data) || !IMAGE_DATA_URL.test(raw.data) || !isString(raw.prompt)) return null;
+
+  const image: Omit<GeneratedImage, 'id'> & { id?: string } = {
+    id: isString(raw.id) ? raw.id : undefined,
+    data: raw.data,
+    prompt: raw.prompt,
+    timestamp: isFraction(raw.timestamp) ? raw.timestamp : Date.now()
+  };
+  if (isOneOf(complexityLevels, raw.level)) image.level = raw.level;
+  if (isOneOf(visualStyles, raw.style)) image.style = raw.style;
+  if (isString(raw.language) && raw.language in languageNames) image.language = raw.language as GeneratedImage['language'];
+  if (isOneOf(ASPECT_RATIOS, raw.aspectRatio)) image.aspectRatio = raw.aspectRatio;
+  if (isOneOf(IMAGE_RESOLUTIONS, raw.resolution)) image.resolution = raw.resolution;
+  if (isString(raw.articleContent)) image.articleContent = raw.articleContent;
+  if (isString(raw.imagePrompt)) image.imagePrompt = raw.imagePrompt;
+  if (isString(raw.parentId)) image.parentId = raw.parentId;
+  if (isString(raw.editInstruction)) image.editInstruction = raw.editInstruction;
+  if (Array.isArray(raw.facts)) image.facts = raw.facts.filter(isString);
+  if (Array.isArray(raw.searchResults)) {
+    image.searchResults = raw.searchResults
+      .filter((item): item is SearchResultItem => isRecord(item) && typeof item.title === 'string' && (isWebUrl(item.url) || (item.document === true && isString(item.url))))
+      .map(({ title, url, document }) => (document ? { title, url, document } : { title, url }));
+  }
+  if (Array.isArray(raw.citations)) image.citations = raw.citations.filter(validCitation);
+  if (Array.isArray(raw.factChecks)) image.factChecks = raw.factChecks.filter(validFactCheck);
+  if (Array.isArray(raw.referenceImages)) image.referenceImages = raw.referenceImages.filter((item): item is string => isString(item) && IMAGE_DATA_URL.test(item));
+  if (Array.isArray(raw.overlay)) image.overlay = raw.overlay.filter(validOverlayItem);
+  return image;
+};
+
+// Records inside a JSON document, in any of the accepted layouts
+const recordsFromJson = (json: unknown): unknown[] => {
+  if (Array.isArray(json)) return json;
+  if (isRecord(json) && Array.isArray(json.images)) return json.images;
+  return [json];
+};
+
+const folderOf = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+const readZipImage = async (zip: JSZip, path: string): Promise<string | undefined> => {
+  const entry = zip.file(path);
+  const mimeType = MIME_BY_EXTENSION[path.split('.').pop()!.toLowerCase()];
+  if (!entry || !mimeType) return undefined;
+  return toDataUrl(await entry.async('base64'), mimeType);
+};
+
+const readFrontMatter = (markdown: string): { fields: Record<string, string>; body: string } => {
+  const match = markdown.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) return { fields: {}, body: markdown };
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split('\n')) {
+    const field = line.match(/^(\w+):\s*(.*)$/);
+    if (!field) continue;
+    try {
+      fields[field[1]] = field[2].startsWith('"') ? JSON.parse(field[2]) : field[2];
+    } catch {
+      fields[field[1]] = field[2];
+    }
+  }
+  return { fields, body: markdown.slice(match[0].length) };
+};
+
+// The bundle labels follow the UI language at export time, so any of them may appear
+const FACTS_HEADINGS = Object.values(translations).map(t => `## ${t.bundle.facts}`);
+const UPLOADED_LABELS = Object.values(translations).map(t => ` (${t.documents.uploaded})`);
+
+// Takes the "## Key facts" bullet list that buildMarkdown writes before the article out of `lines`
+const extractFacts = (lines: string[]): string[] => {
+  const start = lines.findIndex(line => line.trim().length > 0);
+  if (start < 0 || !FACTS_HEADINGS.includes(lines[start].trim())) return [];
+  let end = start + 1;
+  const facts: string[] = [];
+  while (end < lines.length) {
+    const bullet = lines[end].match(/^[-*]\s+(.*)$/);
+    if (bullet) {
+      facts.push(bullet[1].trim());
+    } else if (facts.length > 0) {
+      break;
+    }
+    end++;
+  }
+  lines.splice(start, end - start);
+  return facts;
+};
+
+// Numbered lines of sources.md: linked web results, and uploaded documents marked as such
+const parseSources = (markdown: string): SearchResultItem[] => {
+  return Array.from(markdown.matchAll(/^\d+\.\s+(.+?)\s*$/gm), ([, entry]) => {
+    const link = entry.match(/^\[(.*)\]\((.+)\)$/);
+    if (link) return { title: link[1], url: link[2] };
+    const label = UPLOADED_LABELS.find(suffix => entry.endsWith(suffix));
+    const title = label ? entry.slice(0, -label.length) : entry;
+    return { title, url: title, document: true };
+  });
+};
+
+// Rebuilds a record from article.md and sources.md, for bundles without the record file
+const recordFromArticle = async (zip: JSZip, folder: string): Promise<Candidate> => {
+  const { fields, body } = readFrontMatter(await zip.file(`${folder}article.md`)!.async('string'));
+  const lines = body.split('\n');
+  const imageLine = lines.findIndex(line => /^!\[.*\]\(.+\)$/.test(line.trim()));
+  const imageFile = fields.image || (imageLine >= 0 ? lines[imageLine].trim().match(/\((.+)\)$/)![1] : 'image.png');
+  if (imageLine >= 0) lines.splice(imageLine, 1);
+  const facts = extractFacts(lines);
+
+  const sourcesFile = zip.file(`${folder}sources.md`);
+  const searchResults = sourcesFile ? parseSources(await sourcesFile.async('string')) : [];
+
+  return {
+    data: await readZipImage(zip, `${folder}${imageFile}`),
+    prompt: fields.topic,
+    timestamp: Date.parse(fields.timestamp),
+    level: fields.level,
+    style: fields.style,
+    language: fields.language,
+    aspectRatio: fields.aspect_ratio,
+    resolution: fields.resolution,
+    imagePrompt: fields.image_prompt,
+    facts,
+    // The trailing note only points at sources.md
+    articleContent: lines.join('\n').replace(/\n_[^\n]*sources\.md[^\n]*_\s*$/, '').trim(),
+    searchResults
+  };
+};
+
+const candidatesFromZip = async (file: File): Promise<unknown[]> => {
+  const zip = await JSZip.loadAsync(file);
+  const candidates: unknown[] = [];
+  const bundleFolders = new Set<string>();
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir || !entry.name.toLowerCase().endsWith('.json')) continue;
+    const folder = folderOf(entry.name);
+    let records: unknown[];
+    try {
+      records = recordsFromJson(JSON.parse(await entry.async('string')));
+    } catch {
+      candidates.push(null);
+      continue;
+    }
+    if (entry.name.endsWith(BUNDLE_RECORD_FILE)) bundleFolders.add(folder);
+    // Bundle records name an image file next to them instead of embedding it
+    for (const record of records) {
+      if (isRecord(record) && isString(record.data) && !record.data.startsWith('data:')) {
+        candidates.push({ ...record, data: await readZipImage(zip, `${folder}${record.data}`) });
+      } else {
+        candidates.push(record);
+      }
+    }
+  }
+
+  for (const entry of Object.values(zip.files)) {
+    if (!entry.name.endsWith('article.md')) continue;
+    const folder = folderOf(entry.name);
+    if (!bundleFolders.has(folder)) candidates.push(await recordFromArticle(zip, folder));
+  }
+  return candidates;
+};
+
+const isZip = async (file: File) => {
+  const magic = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+  return magic[0] === 0x50 && magic[1] === 0x4b && magic[2] === 0x03 && magic[3] === 0x04;
+};
+
+/**
+ * Reads the given files and returns the entries that can be merged into `existing`.
+ * Entries already in the library, by id or by identical image data, are skipped.
+ * Entries without an id get one derived from their image, so re-importing them is also a no-op.
+ */
+export const importLibraryFiles = async (files: File[], existing: GeneratedImage[]): Promise<ImportResult> => {
+  const candidates: unknown[] = [];
+  let invalid = 0;
+
+  for (const file of files) {
+    try {
+      if (await isZip(file)) {
+        candidates.push(...await candidatesFromZip(file));
+      } else {
+        candidates.push(...recordsFromJson(JSON.parse(await file.text())));
+      }
+    } catch (err) {
+      console.error(`Could not read ${file.name}`, err);
+      invalid++;
+    }
+  }
+
+  const ids = new Set(existing.map(img => img.id));
+  const hashes = new Set(await Promise.all(existing.map(img => sha256(img.data))));
+  const images: GeneratedImage[] = [];
+  let duplicates = 0;
+
+  for (const candidate of candidates) {
+    const record = validateRecord(candidate);
+    if (!record) {
+      invalid++;
+      continue;
+    }
+    const hash = await sha256(record.data);
+    const id = record.id || `import-${hash.slice(0, 16)}`;
+    if (ids.has(id) || hashes.has(hash)) {
+      duplicates++;
+      continue;
+    }
+    ids.add(id);
+    hashes.add(hash);
+    images.push({ ...record, id });
+  }
+
+  return { images, duplicates, invalid };
+};
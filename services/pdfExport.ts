@@ -0,0 +1,388 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { jsPDF } from 'jspdf';
+import { GeneratedImage, UiLanguage } from '../types';
+import { translations, getLevelLabel, getStyleLabel, languageNames } from '../translations';
+import { parseMarkdown, parseInline, spansToText, InlineSpan, ListItem, MarkdownBlock } from '../utils/markdown';
+import { exportImageData } from '../utils/overlay';
+import { parseDataUrl } from '../utils/dataUrl';
+import { sourceHref } from '../utils/sourceDocuments';
+import { createCanvas, loadImage } from '../utils/image';
+import { describeFormat, orientationOf } from '../utils/imageFormat';
+
+// Client-side PDF handout: title page, infographic, key facts, article and sources
+
+export type PaperSize = 'a4' | 'letter' | 'a3';
+
+export const PAPER_SIZES: PaperSize[] = ['a4', 'letter', 'a3'];
+
+type Rgb = [number, number, number];
+
+const MARGIN = 56; // Points
+const BODY_SIZE = 11;
+const LINE_HEIGHT = 1.45;
+const HEADING_SIZES = [22, 17, 14, 12, 12, 12];
+const FONT = 'helvetica';
+const CODE_FONT = 'courier';
+const TABLE_SIZE = 9;
+const TEXT_COLOR: Rgb = [30, 41, 59];
+const MUTED_COLOR: Rgb = [100, 116, 139];
+const ACCENT_COLOR: Rgb = [8, 145, 178];
+const LINK_COLOR: Rgb = [79, 70, 229];
+// Text the built-in PDF fonts cannot encode is drawn on a canvas at this scale and embedded as an image
+const RASTER_SCALE = 3;
+
+// The built-in fonts only cover Latin-1, so common typography is folded to ASCII first
+const TYPOGRAPHY: [RegExp, string][] = [[/[“”„]/g, '"'], [/[‘’]/g, "'"], [/[–—]/g, '-'], [/…/g, '...'], [/•/g, '-'], [/ /g, ' ']];
+
+const toPdfText = (text: string) => TYPOGRAPHY.reduce((acc, [pattern, replacement]) => acc.replace(pattern, replacement), text);
+const needsRaster = (text: string) => /[^\x00-\xFF]/.test(toPdfText(text));
+const isRtl = (text: string) => /[֐-ࣿ]/.test(text);
+
+// CJK characters can break anywhere, other scripts break between words
+const TOKEN_PATTERN = /\s+|[　-鿿가-힯＀-￯]|[^\s　-鿿가-힯＀-￯]+/g;
+
+interface Word {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  href?: string;
+}
+
+interface TextOptions {
+  bold?: boolean;
+  italic?: boolean;
+  indent?: number;
+  width?: number; // Defaults to the rest of the line after the indent
+  color?: Rgb;
+  align?: 'left' | 'center';
+}
+
+const isSpace = (text: string) => /^\s+$/.test(text);
+
+/**
+ * Builds the handout and resolves to a PDF blob. Labels follow the UI language.
+ */
+export const createHandoutPdf = async (image: GeneratedImage, paperSize: PaperSize, lang: UiLanguage): Promise<Blob> => {
+  const t = translations[lang];
+  const doc = new jsPDF({ unit: 'pt', format: paperSize });
+  let pageWidth = doc.internal.pageSize.getWidth();
+  let pageHeight = doc.internal.pageSize.getHeight();
+  let contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  // Only the infographic page turns sideways, for wide images
+  const newPage = (orientation: 'portrait' | 'landscape' = 'portrait') => {
+    doc.addPage(paperSize, orientation);
+    pageWidth = doc.internal.pageSize.getWidth();
+    pageHeight = doc.internal.pageSize.getHeight();
+    contentWidth = pageWidth - MARGIN * 2;
+    y = MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) newPage();
+  };
+
+  const setFont = (size: number, bold: boolean, italic: boolean, code = false) => {
+    doc.setFont(code ? CODE_FONT : FONT, bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal');
+    doc.setFontSize(size);
+  };
+
+  // Fallback for non-Latin scripts: each wrapped line becomes a small image
+  const writeRaster = (text: string, size: number, options: TextOptions) => {
+    const indent = options.indent || 0;
+    const width = options.width || contentWidth - indent;
+    const lineHeight = size * LINE_HEIGHT;
+    const px = size * RASTER_SCALE;
+    const font = `${options.bold ? 'bold ' : ''}${px}px sans-serif`;
+    const [, measure] = createCanvas(1, 1);
+    measure.font = font;
+
+    const lines: string[] = [];
+    let line = '';
+    for (const token of text.match(TOKEN_PATTERN) || []) {
+      if (line && !isSpace(token) && measure.measureText(line + token).width > width * RASTER_SCALE) {
+        lines.push(line.trim());
+        line = token;
+      } else {
+        line += token;
+      }
+    }
+    if (line.trim()) lines.push(line.trim());
+
+    const rtl = isRtl(text);
+    const [r, g, b] = options.color || TEXT_COLOR;
+    for (const content of lines) {
+      ensureSpace(lineHeight);
+      const [canvas, ctx] = createCanvas(Math.ceil(width * RASTER_SCALE), Math.ceil(lineHeight * RASTER_SCALE));
+      ctx.font = font;
+      ctx.fillStyle = `rgb(${r}, ${g}, ${b})`;
+      ctx.textBaseline = 'middle';
+      ctx.direction = rtl ? 'rtl' : 'ltr';
+      ctx.textAlign = options.align === 'center' ? 'center' : rtl ? 'right' : 'left';
+      const x = options.align === 'center' ? canvas.width / 2 : rtl ? canvas.width : 0;
+      ctx.fillText(content, x, canvas.height / 2);
+      doc.addImage(canvas.toDataURL('image/png'), 'PNG', MARGIN + indent, y, width, lineHeight);
+      y += lineHeight;
+    }
+  };
+
+  // Lays styled words out left to right, wrapping at the content width
+  const writeSpans = (spans: InlineSpan[], size: number, options: TextOptions = {}) => {
+    if (needsRaster(spansToText(spans))) {
+      writeRaster(spansToText(spans), size, options);
+      return;
+    }
+
+    const indent = options.indent || 0;
+    const maxWidth = options.width || contentWidth - indent;
+    const lineHeight = size * LINE_HEIGHT;
+    const words: Word[] = spans.flatMap(span =>
+      (toPdfText(span.text).match(/\s+|\S+/g) || []).map(text => ({
+        text,
+        bold: !!options.bold || span.bold,
+        italic: !!options.italic || span.italic,
+        code: span.code,
+        href: span.href
+      }))
+    );
+
+    const measure = (word: Word) => {
+      setFont(size, word.bold, word.italic, word.code);
+      return doc.getTextWidth(word.text);
+    };
+
+    const drawLine = (line: Word[]) => {
+      while (line.length > 0 && isSpace(line[line.length - 1].text)) line.pop();
+      ensureSpace(lineHeight);
+      const width = line.reduce((sum, word) => sum + measure(word), 0);
+      let x = MARGIN + indent + (options.align === 'center' ? (maxWidth - width) / 2 : 0);
+      for (const word of line) {
+        setFont(size, word.bold, word.italic, word.code);
+        doc.setTextColor(...(word.href ? LINK_COLOR : options.color || TEXT_COLOR));
+        if (word.href && !isSpace(word.text)) {
+          doc.textWithLink(word.text, x, y, { url: word.href, baseline: 'top' });
+        } else {
+          doc.text(word.text, x, y, { baseline: 'top' });
+        }
+        x += doc.getTextWidth(word.text);
+      }
+      y += lineHeight;
+    };
+
+    let line: Word[] = [];
+    let lineWidth = 0;
+    for (const word of words) {
+      if (isSpace(word.text) && line.length === 0) continue;
+      const width = measure(word);
+      if (!isSpace(word.text) && line.length > 0 && lineWidth + width > maxWidth) {
+        drawLine(line);
+        line = [];
+        lineWidth = 0;
+      }
+      line.push(word);
+      lineWidth += width;
+    }
+    if (line.length > 0) drawLine(line);
+  };
+
+  const writeText = (text: string, size: number, options: TextOptions = {}) => {
+    writeSpans([{ text, bold: false, italic: false, code: false }], size, options);
+  };
+
+  const writeHeading = (spans: InlineSpan[], level: number) => {
+    const size = HEADING_SIZES[Math.min(level, HEADING_SIZES.length) - 1];
+    // Keep the heading together with the first lines that follow it
+    ensureSpace(size * LINE_HEIGHT + BODY_SIZE * LINE_HEIGHT * 3);
+    y += level <= 2 ? size * 0.6 : size * 0.3;
+    writeSpans(spans, size, { bold: true, color: level === 3 ? ACCENT_COLOR : TEXT_COLOR });
+    y += size * 0.3;
+  };
+
+  const writeList = (items: ListItem[], ordered: boolean, start = 1, indent = 0, options: TextOptions = {}) => {
+    const itemIndent = indent + 18;
+    items.forEach((item, i) => {
+      ensureSpace(BODY_SIZE * LINE_HEIGHT);
+      setFont(BODY_SIZE, false, false);
+      doc.setTextColor(...ACCENT_COLOR);
+      if (ordered) {
+        doc.text(`${start + i}.`, MARGIN + indent, y, { baseline: 'top' });
+      } else {
+        doc.setFillColor(...ACCENT_COLOR);
+        doc.circle(MARGIN + indent + 5, y + BODY_SIZE * 0.55, 2, 'F');
+      }
+      writeSpans(item.spans, BODY_SIZE, { ...options, indent: itemIndent });
+      y += 2;
+      writeBlocks(item.children, itemIndent, options);
+    });
+    if (indent === 0) y += BODY_SIZE * 0.5;
+  };
+
+  const writeCode = (text: string, indent: number) => {
+    const size = BODY_SIZE - 1;
+    const lineHeight = size * LINE_HEIGHT;
+    for (const line of text.split('\n')) {
+      ensureSpace(lineHeight);
+      doc.setFillColor(241, 245, 249);
+      doc.rect(MARGIN + indent, y, contentWidth - indent, lineHeight, 'F');
+      writeSpans([{ text: line || ' ', bold: false, italic: false, code: true }], size, { indent: indent + 8, color: TEXT_COLOR });
+    }
+    y += BODY_SIZE * 0.6;
+  };
+
+  const writeTable = (block: MarkdownBlock & { type: 'table' }, indent: number) => {
+    const columnWidth = (contentWidth - indent) / block.header.length;
+    const cellWidth = columnWidth - 8;
+    const lineHeight = TABLE_SIZE * LINE_HEIGHT;
+
+    const writeRow = (cells: InlineSpan[][], header: boolean) => {
+      // Rows are kept on one page, so measure the tallest cell first
+      setFont(TABLE_SIZE, header, false);
+      const lines = Math.max(...cells.map(cell => (doc.splitTextToSize(toPdfText(spansToText(cell)) || ' ', cellWidth) as string[]).length));
+      ensureSpace(lines * lineHeight + 6);
+      const top = y;
+      if (header) {
+        doc.setFillColor(241, 245, 249);
+        doc.rect(MARGIN + indent, top, contentWidth - indent, lines * lineHeight + 6, 'F');
+      }
+      let bottom = top;
+      cells.forEach((cell, col) => {
+        y = top + 3;
+        writeSpans(cell, TABLE_SIZE, { indent: indent + col * columnWidth + 4, width: cellWidth, bold: header });
+        bottom = Math.max(bottom, y + 3);
+      });
+      y = bottom;
+      doc.setDrawColor(226, 232, 240);
+      doc.setLineWidth(0.5);
+      doc.line(MARGIN + indent, y, MARGIN + contentWidth, y);
+    };
+
+    writeRow(block.header, true);
+    block.rows.forEach(row => writeRow(row, false));
+    y += BODY_SIZE;
+  };
+
+  const writeBlocks = (blocks: MarkdownBlock[], indent = 0, options: TextOptions = {}) => {
+    for (const block of blocks) {
+      switch (block.type) {
+        case 'heading':
+          writeHeading(block.spans, block.level);
+          break;
+        case 'paragraph':
+          writeSpans(block.spans, BODY_SIZE, { ...options, indent });
+          y += BODY_SIZE * 0.6;
+          break;
+        case 'list':
+          writeList(block.items, block.ordered, block.start, indent, options);
+          break;
+        case 'code':
+          writeCode(block.text, indent);
+          break;
+        case 'blockquote': {
+          const top = y;
+          const page = doc.getNumberOfPages();
+          writeBlocks(block.blocks, indent + 14, { italic: true, color: MUTED_COLOR });
+          // The bar is only drawn when the quote did not cross a page break
+          if (doc.getNumberOfPages() === page && y > top) {
+            doc.setFillColor(...ACCENT_COLOR);
+            doc.rect(MARGIN + indent, top, 2, y - top - BODY_SIZE * 0.6, 'F');
+          }
+          break;
+        }
+        case 'table':
+          writeTable(block, indent);
+          break;
+        case 'rule':
+          ensureSpace(BODY_SIZE);
+          doc.setDrawColor(226, 232, 240);
+          doc.setLineWidth(1);
+          doc.line(MARGIN + indent, y + BODY_SIZE / 2, MARGIN + contentWidth, y + BODY_SIZE / 2);
+          y += BODY_SIZE * 1.5;
+          break;
+      }
+    }
+  };
+
+  // Title page
+  y = pageHeight * 0.3;
+  writeText('InfoGenius Free', 10, { color: ACCENT_COLOR, bold: true, align: 'center' });
+  y += 12;
+  writeText(image.prompt, 28, { bold: true, align: 'center' });
+  y += 16;
+  const meta = [
+    image.level && getLevelLabel(lang, image.level),
+    image.style && getStyleLabel(lang, image.style),
+    image.language && languageNames[image.language],
+    describeFormat(image)
+  ].filter(Boolean).join('  |  ');
+  if (meta) writeText(meta, 12, { color: MUTED_COLOR, align: 'center' });
+  writeText(new Date(image.timestamp).toLocaleDateString(), 12, { color: MUTED_COLOR, align: 'center' });
+
+  // Infographic, with its label overlay burned in
+  const imageData = await exportImageData(image);
+  const img = await loadImage(imageData);
+  const wide = image.aspectRatio ? orientationOf(image.aspectRatio) === 'landscape' : img.naturalWidth > img.naturalHeight;
+  newPage(wide ? 'landscape' : 'portrait');
+  const maxHeight = pageHeight - MARGIN * 2 - 40;
+  const scale = Math.min(contentWidth / img.naturalWidth, maxHeight / img.naturalHeight);
+  const imageWidth = img.naturalWidth * scale;
+  const imageHeight = img.naturalHeight * scale;
+  doc.addImage(imageData, parseDataUrl(imageData).mimeType === 'image/jpeg' ? 'JPEG' : 'PNG', MARGIN + (contentWidth - imageWidth) / 2, y, imageWidth, imageHeight);
+  y += imageHeight + 12;
+  writeText(image.prompt, 9, { color: MUTED_COLOR, align: 'center' });
+
+  // Key facts and article
+  newPage();
+  if (image.facts && image.facts.length > 0) {
+    writeHeading(parseInline(t.pdf.facts), 2);
+    writeList(image.facts.map(fact => ({ spans: parseInline(fact), children: [] })), false);
+    y += BODY_SIZE;
+  }
+
+  if (image.articleContent) {
+    writeBlocks(parseMarkdown(image.articleContent));
+  }
+
+  // Sources
+  if (image.searchResults && image.searchResults.length > 0) {
+    newPage();
+    writeHeading(parseInline(t.pdf.sources), 2);
+    image.searchResults.forEach((source, i) => {
+      ensureSpace(BODY_SIZE * LINE_HEIGHT * 2);
+      writeText(`${i + 1}. ${source.title}`, BODY_SIZE, { bold: true });
+      const href = sourceHref(source);
+      if (!href) {
+        writeText(t.documents.uploaded, 9, { italic: true, indent: 14, color: MUTED_COLOR });
+        y += 6;
+        return;
+      }
+      // URLs have no spaces to wrap at, so let jsPDF split them by width
+      setFont(9, false, false);
+      doc.setTextColor(...LINK_COLOR);
+      for (const part of doc.splitTextToSize(href, contentWidth - 14) as string[]) {
+        ensureSpace(9 * LINE_HEIGHT);
+        doc.textWithLink(part, MARGIN + 14, y, { url: href, baseline: 'top' });
+        y += 9 * LINE_HEIGHT;
+      }
+      y += 6;
+    });
+  }
+
+  // Footer on every page but the title page
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 2; page <= pageCount; page++) {
+    doc.setPage(page);
+    pageWidth = doc.internal.pageSize.getWidth();
+    pageHeight = doc.internal.pageSize.getHeight();
+    setFont(8, false, false);
+    doc.setTextColor(...MUTED_COLOR);
+    doc.text('InfoGenius Free', MARGIN, pageHeight - MARGIN / 2);
+    doc.text(t.pdf.page.replace('{page}', String(page)).replace('{total}', String(pageCount)), pageWidth - MARGIN, pageHeight - MARGIN / 2, { align: 'right' });
+  }
+
+  return doc.output('blob');
+};
@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import PptxGenJS from 'pptxgenjs';
+import { GeneratedImage, UiLanguage } from '../types';
+import { translations, getLevelLabel, getStyleLabel, languageNames } from '../translations';
+import { parseMarkdown, parseInline, spansToText, InlineSpan, MarkdownBlock } from '../utils/markdown';
+import { exportImageData } from '../utils/overlay';
+import { loadImage } from '../utils/image';
+import { sourceHref } from '../utils/sourceDocuments';
+import { describeFormat } from '../utils/imageFormat';
+
+// Client-side slide deck: title, infographic hero, facts, one slide per article heading, sources
+
+// LAYOUT_WIDE, in inches
+const SLIDE_WIDTH = 13.333;
+const SLIDE_HEIGHT = 7.5;
+const MARGIN = 0.6;
+const TITLE_HEIGHT = 1.1;
+const FONT = 'Arial';
+const DARK = '0F172A';
+const TEXT = '1E293B';
+const MUTED = '64748B';
+const ACCENT = '0891B2';
+
+// Long sections continue on extra slides instead of overflowing
+const MAX_BULLETS = 6;
+const MAX_CHARS = 650;
+const MAX_SOURCES = 8;
+
+type TableBlock = MarkdownBlock & { type: 'table' };
+
+interface Paragraph {
+  spans: InlineSpan[];
+  bullet: 'bullet' | 'number' | null;
+  depth: number; // Nesting of list items
+  quote?: boolean;
+}
+
+interface Section {
+  title: InlineSpan[];
+  level: number;
+  body: Paragraph[];
+  tables: TableBlock[]; // Each gets a slide of its own after the text
+}
+
+const toRuns = (spans: InlineSpan[]): PptxGenJS.TextProps[] => spans.map(span => ({
+  text: span.text,
+  options: {
+    bold: span.bold,
+    italic: span.italic,
+    strike: span.strike ? 'sngStrike' : undefined,
+    fontFace: span.code ? 'Courier New' : undefined,
+    hyperlink: span.href ? { url: span.href } : undefined
+  }
+}));
+
+const toParagraphRuns = (paragraphs: Paragraph[]): PptxGenJS.TextProps[] => paragraphs.flatMap((paragraph, i) => {
+  const runs = toRuns(paragraph.spans);
+  if (runs.length === 0) return [];
+  runs.forEach(run => {
+    if (paragraph.quote) run.options = { ...run.options, italic: true, color: MUTED };
+  });
+  runs[0].options = {
+    ...runs[0].options,
+    bullet: paragraph.bullet === 'number' ? { type: 'number' } : paragraph.bullet === 'bullet' ? { indent: 18 } : false,
+    indentLevel: paragraph.depth,
+    paraSpaceAfter: 10
+  };
+  if (i < paragraphs.length - 1) runs[runs.length - 1].options = { ...runs[runs.length - 1].options, breakLine: true };
+  return runs;
+});
+
+const chunkParagraphs = (paragraphs: Paragraph[]): Paragraph[][] => {
+  const chunks: Paragraph[][] = [];
+  let current: Paragraph[] = [];
+  let chars = 0;
+  for (const paragraph of paragraphs) {
+    const length = spansToText(paragraph.spans).length;
+    if (current.length > 0 && (current.length >= MAX_BULLETS || chars + length > MAX_CHARS)) {
+      chunks.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(paragraph);
+    chars += length;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+};
+
+// Flattens blocks into slide paragraphs; nested lists keep their depth
+const toParagraphs = (blocks: MarkdownBlock[], depth: number, quote: boolean): Paragraph[] => blocks.flatMap((block): Paragraph[] => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return [{ spans: block.spans, bullet: null, depth, quote }];
+    case 'list':
+      return block.items.flatMap(item => [
+        { spans: item.spans, bullet: block.ordered ? 'number' as const : 'bullet' as const, depth, quote },
+        ...toParagraphs(item.children, depth + 1, quote)
+      ]);
+    case 'code':
+      return block.text.split('\n').map(line => ({ spans: [{ text: line || ' ', bold: false, italic: false, code: true }], bullet: null, depth, quote }));
+    case 'blockquote':
+      return toParagraphs(block.blocks, depth, true);
+    default:
+      return [];
+  }
+});
+
+// Groups the article blocks under the heading that precedes them
+const toSections = (markdown: string, topic: string): Section[] => {
+  const sections: Section[] = [];
+  for (const block of parseMarkdown(markdown)) {
+    if (block.type === 'heading') {
+      sections.push({ title: block.spans, level: block.level, body: [], tables: [] });
+      continue;
+    }
+    if (sections.length === 0) sections.push({ title: parseInline(topic), level: 1, body: [], tables: [] });
+    const section = sections[sections.length - 1];
+    if (block.type === 'table') section.tables.push(block);
+    else section.body.push(...toParagraphs([block], 0, false));
+  }
+  return sections;
+};
+
+/**
+ * Builds the deck and resolves to a .pptx blob. Labels follow the UI language.
+ */
+export const createSlideDeck = async (image: GeneratedImage, lang: UiLanguage): Promise<Blob> => {
+  const t = translations[lang];
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = image.prompt;
+  pptx.company = 'InfoGenius Free';
+
+  const contentWidth = SLIDE_WIDTH - MARGIN * 2;
+  const bodyTop = MARGIN + TITLE_HEIGHT + 0.2;
+  const bodyHeight = SLIDE_HEIGHT - bodyTop - MARGIN;
+
+  const addTitledSlide = (title: string | PptxGenJS.TextProps[]) => {
+    const slide = pptx.addSlide();
+    slide.background = { color: 'FFFFFF' };
+    slide.addShape('rect', { x: 0, y: 0, w: 0.15, h: SLIDE_HEIGHT, fill: { color: ACCENT } });
+    slide.addText(title, {
+      x: MARGIN, y: MARGIN, w: contentWidth, h: TITLE_HEIGHT,
+      fontFace: FONT, fontSize: 30, bold: true, color: TEXT, valign: 'middle', fit: 'shrink'
+    });
+    return slide;
+  };
+
+  const addBodySlides = (title: InlineSpan[], paragraphs: Paragraph[]) => {
+    chunkParagraphs(paragraphs).forEach((chunk, i) => {
+      const heading = i === 0 ? toRuns(title) : [...toRuns(title), { text: ` (${t.slides.continued})`, options: { color: MUTED } }];
+      const slide = addTitledSlide(heading);
+      slide.addText(toParagraphRuns(chunk), {
+        x: MARGIN, y: bodyTop, w: contentWidth, h: bodyHeight,
+        fontFace: FONT, fontSize: 20, color: TEXT, valign: 'top', fit: 'shrink'
+      });
+      slide.addNotes(chunk.map(paragraph => spansToText(paragraph.spans)).join('\n\n'));
+    });
+  };
+
+  const addTableSlide = (title: InlineSpan[], table: TableBlock) => {
+    const slide = addTitledSlide(toRuns(title));
+    const cell = (spans: InlineSpan[], col: number, header: boolean): PptxGenJS.TableCell => ({
+      text: spansToText(spans),
+      options: { bold: header, fill: header ? { color: 'F1F5F9' } : undefined, align: table.align[col] || 'left' }
+    });
+    slide.addTable([
+      table.header.map((spans, col) => cell(spans, col, true)),
+      ...table.rows.map(row => row.map((spans, col) => cell(spans, col, false)))
+    ], {
+      x: MARGIN, y: bodyTop, w: contentWidth,
+      fontFace: FONT, fontSize: 14, color: TEXT, border: { type: 'solid', pt: 0.5, color: 'E2E8F0' },
+      autoPage: true, autoPageRepeatHeader: true
+    });
+  };
+
+  const addDividerSlide = (title: InlineSpan[], subtitle?: string) => {
+    const slide = pptx.addSlide();
+    slide.background = { color: DARK };
+    slide.addText(toRuns(title), {
+      x: MARGIN, y: SLIDE_HEIGHT * 0.3, w: contentWidth, h: 1.8,
+      fontFace: FONT, fontSize: 40, bold: true, color: 'FFFFFF', align: 'center', valign: 'middle', fit: 'shrink'
+    });
+    if (subtitle) {
+      slide.addText(subtitle, {
+        x: MARGIN, y: SLIDE_HEIGHT * 0.3 + 1.9, w: contentWidth, h: 0.8,
+        fontFace: FONT, fontSize: 18, color: '94A3B8', align: 'center', valign: 'top'
+      });
+    }
+    return slide;
+  };
+
+  // Title slide
+  const meta = [
+    image.level && getLevelLabel(lang, image.level),
+    image.style && getStyleLabel(lang, image.style),
+    image.language && languageNames[image.language],
+    describeFormat(image),
+    new Date(image.timestamp).toLocaleDateString()
+  ].filter(Boolean).join('  |  ');
+  const titleSlide = addDividerSlide(parseInline(image.prompt), meta);
+  titleSlide.addText('InfoGenius Free', {
+    x: MARGIN, y: SLIDE_HEIGHT - MARGIN - 0.4, w: contentWidth, h: 0.4,
+    fontFace: FONT, fontSize: 12, bold: true, color: ACCENT, align: 'center'
+  });
+
+  // Hero slide: the infographic as large as the slide allows
+  const imageData = await exportImageData(image);
+  const img = await loadImage(imageData);
+  const boxHeight = SLIDE_HEIGHT - MARGIN;
+  const scale = Math.min((SLIDE_WIDTH - MARGIN) / img.naturalWidth, boxHeight / img.naturalHeight);
+  const hero = pptx.addSlide();
+  hero.background = { color: DARK };
+  hero.addImage({
+    data: imageData.replace(/^data:/, ''),
+    x: (SLIDE_WIDTH - img.naturalWidth * scale) / 2,
+    y: (SLIDE_HEIGHT - img.naturalHeight * scale) / 2,
+    w: img.naturalWidth * scale,
+    h: img.naturalHeight * scale,
+    altText: image.prompt
+  });
+
+  // Key facts
+  if (image.facts && image.facts.length > 0) {
+    addBodySlides(parseInline(t.slides.facts), image.facts.map(fact => ({ spans: parseInline(fact), bullet: 'bullet', depth: 0 })));
+  }
+
+  // Article: headings without content of their own become section dividers
+  if (image.articleContent) {
+    for (const section of toSections(image.articleContent, image.prompt)) {
+      if (section.body.length === 0 && section.tables.length === 0) addDividerSlide(section.title);
+      if (section.body.length > 0) addBodySlides(section.title, section.body);
+      section.tables.forEach(table => addTableSlide(section.title, table));
+    }
+  }
+
+  // Sources
+  const sources = image.searchResults || [];
+  for (let start = 0; start < sources.length; start += MAX_SOURCES) {
+    const title = start === 0 ? t.slides.sources : `${t.slides.sources} (${t.slides.continued})`;
+    const slide = addTitledSlide(title);
+    const runs: PptxGenJS.TextProps[] = sources.slice(start, start + MAX_SOURCES).flatMap((source, i, page) => {
+      const href = sourceHref(source);
+      return [
+        { text: `${start + i + 1}. ${source.title}`, options: { bold: true, breakLine: true } },
+        href
+          ? { text: href, options: { fontSize: 12, color: ACCENT, hyperlink: { url: href }, paraSpaceAfter: 8, breakLine: i < page.length - 1 } }
+          : { text: t.documents.uploaded, options: { fontSize: 12, color: MUTED, italic: true, paraSpaceAfter: 8, breakLine: i < page.length - 1 } }
+      ];
+    });
+    slide.addText(runs, {
+      x: MARGIN, y: bodyTop, w: contentWidth, h: bodyHeight,
+      fontFace: FONT, fontSize: 16, color: TEXT, valign: 'top', fit: 'shrink'
+    });
+  }
+
+  return pptx.write({ outputType: 'blob' }) as Promise<Blob>;
+};
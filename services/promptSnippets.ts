@@ -0,0 +1,29 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Reusable pieces of image prompt text, kept in localStorage
+
+export interface PromptSnippet {
+  id: string;
+  name: string;
+  text: string;
+}
+
+const STORAGE_KEY = 'infogenius_prompt_snippets';
+
+export const loadSnippets = (): PromptSnippet[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter(s => typeof s?.id === 'string' && typeof s?.name === 'string' && typeof s?.text === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSnippets = (snippets: PromptSnippet[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(snippets));
+};
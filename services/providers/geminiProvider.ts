@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { SearchResultItem } from "../../types";
+import { parseDataUrl, toDataUrl } from "../../utils/dataUrl";
+import { isPaidResolution } from "../../utils/imageFormat";
+import { AiProvider, GroundedPassage } from "./types";
+import { executeWithKeyPool } from "./keyPool";
+
+// Helper to create AI instance with a specific key
+const createAi = (key?: string) => {
+  return new GoogleGenAI({ apiKey: key || process.env.API_KEY });
+};
+
+// Every call goes through the key pool, which handles rotation, cooldowns and retries
+const executeWithRetry = <T>(operation: (ai: GoogleGenAI) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  return executeWithKeyPool(key => operation(createAi(key)), signal);
+};
+
+// Use Gemini 2.5 Flash as it is widely available and performant
+const TEXT_MODEL = 'gemini-2.5-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+// 2.5 Flash Image only renders at 1K, so larger outputs use the Pro image model, which has no free tier
+const HIGH_RES_IMAGE_MODEL = 'gemini-3-pro-image-preview';
+const EDIT_MODEL = 'gemini-2.5-flash-image';
+
+// Check all parts for image data as 2.5 Flash Image can return mixed content
+const extractImage = (response: GenerateContentResponse, errorMessage: string): string => {
+  const parts = response.candidates?.[0]?.content?.parts;
+  if (parts) {
+    for (const part of parts) {
+      if (part.inlineData && part.inlineData.data) {
+        return toDataUrl(part.inlineData.data, part.inlineData.mimeType || 'image/png');
+      }
+    }
+  }
+  throw new Error(errorMessage);
+};
+
+// Extract Grounding (Search Results), plus the passages each source supports
+const collectSources = (response: GenerateContentResponse, sources: SearchResultItem[], passages: GroundedPassage[]) => {
+  const metadata = response.candidates?.[0]?.groundingMetadata;
+  const chunks = metadata?.groundingChunks;
+
+  // Support indices refer to this response's chunks; map them to positions in `sources`
+  const sourceIndex: number[] = [];
+  if (chunks) {
+    chunks.forEach((chunk, i) => {
+      if (chunk.web?.uri && chunk.web?.title) {
+        sources.push({
+          title: chunk.web.title,
+          url: chunk.web.uri
+        });
+        sourceIndex[i] = sources.length - 1;
+      }
+    });
+  }
+
+  metadata?.groundingSupports?.forEach(support => {
+    const indices = (support.groundingChunkIndices || []).map(i => sourceIndex[i]).filter(i => i !== undefined);
+    if (support.segment?.text && indices.length > 0) {
+      passages.push({ text: support.segment.text, sources: indices });
+    }
+  });
+};
+
+export const geminiProvider: AiProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+
+  researchText: ({ prompt, attachments = [], useSearch, responseSchema, signal, onText }) => executeWithRetry(async (ai) => {
+    // Gemini cannot combine the search tool with JSON mode, so the schema only applies without search
+    const request = {
+      model: TEXT_MODEL,
+      contents: attachments.length > 0
+        ? { parts: [{ text: prompt }, ...attachments.map(attachment => ({ inlineData: parseDataUrl(attachment.data) }))] }
+        : prompt,
+      config: {
+        abortSignal: signal,
+        ...(useSearch
+          ? { tools: [{ googleSearch: {} }] }
+          : responseSchema
+            ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema }
+            : {}),
+      },
+    };
+    const sources: SearchResultItem[] = [];
+    const passages: GroundedPassage[] = [];
+
+    if (!onText) {
+      const response = await ai.models.generateContent(request);
+      collectSources(response, sources, passages);
+      return { text: response.text || "", sources, passages };
+    }
+
+    // Grounding metadata may arrive on any chunk, usually the last one
+    let text = "";
+    for await (const chunk of await ai.models.generateContentStream(request)) {
+      text += chunk.text || "";
+      collectSources(chunk, sources, passages);
+      onText(text);
+    }
+    return { text, sources, passages };
+  }, signal),
+
+  generateImage: ({ prompt, references = [], format, signal }) => executeWithRetry(async (ai) => {
+    const highRes = format && isPaidResolution(format.resolution);
+    const response = await ai.models.generateContent({
+      model: highRes ? HIGH_RES_IMAGE_MODEL : IMAGE_MODEL,
+      contents: {
+        parts: [
+          ...references.map(reference => ({ inlineData: parseDataUrl(reference) })),
+          { text: prompt }
+        ]
+      },
+      config: {
+        abortSignal: signal,
+        ...(format && {
+          imageConfig: { aspectRatio: format.aspectRatio, ...(highRes && { imageSize: format.resolution }) }
+        }),
+      },
+    });
+    return extractImage(response, "Failed to generate image");
+  }, signal),
+
+  editImage: ({ image, prompt, signal }) => executeWithRetry(async (ai) => {
+    const { mimeType, data } = parseDataUrl(image);
+    const response = await ai.models.generateContent({
+      model: EDIT_MODEL,
+      contents: {
+        parts: [
+          { inlineData: { data, mimeType } },
+          { text: prompt },
+        ],
+      },
+      config: { abortSignal: signal },
+    });
+    return extractImage(response, "Failed to edit image");
+  }, signal),
+};
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AiProvider, ProviderSettings, ProviderStep } from "./types";
+import { geminiProvider } from "./geminiProvider";
+import { openAiProvider, setOpenAiConfig } from "./openAiProvider";
+import { mockProvider } from "./mockProvider";
+
+export * from "./types";
+export { setApiKeys, getKeyStats, subscribeKeyStats, getHealthyKeyCount } from "./keyPool";
+export type { KeyStats } from "./keyPool";
+
+const registry = new Map<string, AiProvider>();
+
+/**
+ * Makes a backend selectable in the provider settings. Registering an id twice replaces it.
+ */
+export const registerProvider = (provider: AiProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const listProviders = (): AiProvider[] => Array.from(registry.values());
+
+registerProvider(geminiProvider);
+registerProvider(openAiProvider);
+registerProvider(mockProvider);
+
+// Set USE_MOCK_AI=true in .env.local to run every step offline, whatever the settings say
+export const isMockMode = process.env.USE_MOCK_AI === 'true';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  steps: {
+    research: 'gemini',
+    image: 'gemini',
+    edit: 'gemini'
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    textModel: 'gpt-4o-mini',
+    imageModel: 'gpt-image-1'
+  }
+};
+
+let settings: ProviderSettings = DEFAULT_PROVIDER_SETTINGS;
+
+export const getProviderSettings = (): ProviderSettings => settings;
+
+export const setProviderSettings = (next: ProviderSettings) => {
+  settings = next;
+  setOpenAiConfig(next.openai);
+};
+
+// Resolves the backend configured for a step, falling back to Gemini for unknown ids
+export const getProvider = (step: ProviderStep): AiProvider => {
+  if (isMockMode) return mockProvider;
+  return registry.get(settings.steps[step]) || geminiProvider;
+};
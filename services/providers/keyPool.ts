@@ -0,0 +1,201 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { abortableDelay, isAbortError } from "../../utils/abort";
+
+// Pool of Gemini API keys: round-robin across healthy keys, cooldowns for rate-limited
+// or rejected keys, retry-after aware backoff, and per-key usage statistics.
+
+type ErrorKind = 'rate_limit' | 'auth' | 'transient' | 'fatal';
+
+export interface KeyStats {
+  label: string; // Masked key, safe to display
+  successCount: number;
+  failureCount: number;
+  lastError?: string;
+  lastUsedAt?: number;
+  cooldownUntil?: number;
+}
+
+interface PoolEntry {
+  key?: string; // Undefined means the environment default key
+  stats: KeyStats;
+  consecutiveFailures: number;
+}
+
+const MAX_ATTEMPTS = 6;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+// Invalid or unauthorized keys are benched for a long time rather than retried
+const AUTH_COOLDOWN_MS = 10 * 60 * 1000;
+// Longest we are willing to wait for a cooling key before giving up
+const MAX_WAIT_MS = 30000;
+
+let entries: PoolEntry[] = [];
+let cursor = 0;
+const listeners = new Set<(stats: KeyStats[]) => void>();
+
+const maskKey = (key?: string): string => {
+  if (!key) return 'default';
+  return key.length > 10 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '••••';
+};
+
+const createEntry = (key?: string): PoolEntry => ({
+  key,
+  stats: { label: maskKey(key), successCount: 0, failureCount: 0 },
+  consecutiveFailures: 0
+});
+
+const notify = () => {
+  const snapshot = getKeyStats();
+  listeners.forEach(listener => listener(snapshot));
+};
+
+/**
+ * Replaces the user's keys. Stats survive for keys that are still present.
+ * With no custom keys the pool falls back to the environment key.
+ */
+export const setApiKeys = (keys: string[]) => {
+  const cleaned = Array.from(new Set(keys.map(k => k.trim()).filter(k => k.length > 0)));
+  const previous = new Map(entries.map(entry => [entry.key, entry]));
+  entries = cleaned.length > 0
+    ? cleaned.map(key => previous.get(key) || createEntry(key))
+    : [previous.get(undefined) || createEntry()];
+  cursor = 0;
+  notify();
+};
+
+export const getKeyStats = (): KeyStats[] => entries.map(entry => ({ ...entry.stats }));
+
+export const subscribeKeyStats = (listener: (stats: KeyStats[]) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const isHealthy = (entry: PoolEntry, now: number) => !entry.stats.cooldownUntil || entry.stats.cooldownUntil <= now;
+
+/**
+ * Number of keys currently able to take a request, used to size parallel work.
+ */
+export const getHealthyKeyCount = (): number => {
+  const now = Date.now();
+  return Math.max(1, entries.filter(entry => isHealthy(entry, now)).length);
+};
+
+const getStatus = (err: any): number | undefined => {
+  if (typeof err?.status === 'number') return err.status;
+  if (typeof err?.code === 'number') return err.code;
+  return undefined;
+};
+
+const classifyError = (err: any): ErrorKind => {
+  const status = getStatus(err);
+  if (status === 429) return 'rate_limit';
+  if (status === 401 || status === 403) return 'auth';
+  // Gemini answers an invalid or expired key with a plain 400
+  if (status === 400 && typeof err?.message === 'string' && /API_KEY_INVALID|API key not valid/i.test(err.message)) return 'auth';
+  if (status === 408 || (status !== undefined && status >= 500)) return 'transient';
+  // fetch() rejects with a TypeError when the network itself fails
+  if (status === undefined && err instanceof TypeError) return 'transient';
+  return 'fatal';
+};
+
+// Honors an explicit retry hint: a retryAfterMs field or Google's RetryInfo "retryDelay": "12s"
+const getRetryAfterMs = (err: any): number | undefined => {
+  if (typeof err?.retryAfterMs === 'number') return err.retryAfterMs;
+  const match = typeof err?.message === 'string' && err.message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+const backoffDelay = (failures: number): number => {
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** Math.max(0, failures - 1), MAX_BACKOFF_MS);
+  // Jitter keeps parallel requests from retrying in lockstep
+  return exponential / 2 + Math.random() * exponential / 2;
+};
+
+// Next healthy key after the cursor, so consecutive calls spread across keys
+const pickEntry = (now: number): PoolEntry | undefined => {
+  for (let i = 0; i < entries.length; i++) {
+    const index = (cursor + i) % entries.length;
+    if (isHealthy(entries[index], now)) {
+      cursor = (index + 1) % entries.length;
+      return entries[index];
+    }
+  }
+  return undefined;
+};
+
+const recordSuccess = (entry: PoolEntry) => {
+  entry.consecutiveFailures = 0;
+  entry.stats.successCount++;
+  entry.stats.lastUsedAt = Date.now();
+  entry.stats.cooldownUntil = undefined;
+  notify();
+};
+
+const recordFailure = (entry: PoolEntry, err: any, cooldownMs: number) => {
+  entry.consecutiveFailures++;
+  entry.stats.failureCount++;
+  entry.stats.lastUsedAt = Date.now();
+  entry.stats.lastError = err?.message || String(err);
+  if (cooldownMs > 0) {
+    entry.stats.cooldownUntil = Date.now() + cooldownMs;
+  }
+  notify();
+};
+
+/**
+ * Runs `operation` with a key from the pool, rotating and backing off on
+ * rate limits, rejected keys and transient server errors. Other errors
+ * (bad request, safety filter...) are thrown immediately, and so is an abort.
+ */
+export const executeWithKeyPool = async <T>(operation: (key?: string) => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (entries.length === 0) setApiKeys([]);
+  let lastError: any;
+
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    signal?.throwIfAborted();
+    let entry = pickEntry(Date.now());
+
+    if (!entry) {
+      // Every key is cooling down: wait for the first one if that is reasonable
+      const nextReady = Math.min(...entries.map(e => e.stats.cooldownUntil || 0));
+      const wait = nextReady - Date.now();
+      if (wait > MAX_WAIT_MS) break;
+      await abortableDelay(Math.max(0, wait), signal);
+      entry = pickEntry(Date.now());
+      if (!entry) break;
+    }
+
+    try {
+      const result = await operation(entry.key);
+      recordSuccess(entry);
+      return result;
+    } catch (err: any) {
+      // A cancelled request says nothing about the key's health
+      if (signal?.aborted || isAbortError(err)) throw err;
+      lastError = err;
+      const kind = classifyError(err);
+
+      // The request itself was rejected (bad input, safety filter...), which says nothing about the key either
+      if (kind === 'fatal') throw err;
+
+      if (kind === 'auth') {
+        recordFailure(entry, err, AUTH_COOLDOWN_MS);
+      } else if (kind === 'rate_limit') {
+        recordFailure(entry, err, getRetryAfterMs(err) ?? backoffDelay(entry.consecutiveFailures + 1));
+      } else {
+        // Transient failures are not the key's fault: back off, then retry on the next key
+        recordFailure(entry, err, 0);
+        await abortableDelay(getRetryAfterMs(err) ?? backoffDelay(attempt + 1), signal);
+      }
+
+      console.warn(`API key ${entry.stats.label} failed (${kind}), rotating... (${err.message})`);
+    }
+  }
+
+  throw lastError || new Error("All API keys failed.");
+};
@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ImageFormat, SearchResultItem } from "../../types";
+import { AiProvider, GroundedPassage } from "./types";
+import { abortableDelay } from "../../utils/abort";
+import { loadImage, createCanvas as createSizedCanvas } from "../../utils/image";
+import { sizeForRatio } from "../../utils/imageFormat";
+
+// Offline backend for demos and UI work: canned research text and locally drawn images.
+// Output depends only on the input prompt, so repeated runs are identical.
+
+const MOCK_LATENCY_MS = 600;
+// Streamed research is delivered in this many pieces, spread over the same latency
+const MOCK_STREAM_CHUNKS = 12;
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+
+// Small stable string hash used to derive colors from the prompt
+const hashString = (value: string): number => {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash);
+};
+
+const extractTopic = (prompt: string): string => {
+  const match = prompt.match(/research the topic:\s*"([^"]+)"/i);
+  return match ? match[1] : 'Mock Topic';
+};
+
+// With uploaded documents the answer cites document [1] inline, like a real model is asked to
+const buildResearchText = (topic: string, cite: string): string => JSON.stringify({
+  facts: [
+    `${topic} is used here as a placeholder topic for offline development.${cite}`,
+    `This fact list is canned mock data and was not researched.${cite}`,
+    'Mock research always returns the same five facts for the same topic.',
+    'Images in mock mode are drawn locally on a canvas.',
+    'No network request was made to produce this content.'
+  ],
+  imagePrompt: `A clean educational infographic about ${topic}, with a bold title, three labelled panels and a simple icon for each key concept.`,
+  articleContent: [
+    `# ${topic}`,
+    '',
+    '## Introduction',
+    `This article was produced by the **mock provider**. It lets the interface be demoed and developed without an API key or network access.${cite}`,
+    '',
+    '## Key Concepts',
+    '- The research step returns canned structured output.',
+    '- The image step renders the prompt onto a placeholder canvas.',
+    '- The edit step stamps the instruction onto the current image.',
+    '',
+    '### Details',
+    'Everything here is deterministic, so the same topic always yields the same output.',
+    '',
+    '## Conclusion',
+    'Switch the provider back to a real backend to generate actual content.'
+  ].join('\n')
+});
+
+// Label translation requests get the labels back, tagged with the target language
+const buildTranslationText = (prompt: string): string | null => {
+  const labels = prompt.match(/Labels:\s*(\[.*\])/);
+  const language = prompt.match(/into ([A-Za-z]+)\./);
+  if (!labels) return null;
+  const parsed: string[] = JSON.parse(labels[1]);
+  return JSON.stringify({ translations: parsed.map(label => `${label} (${language ? language[1] : 'mock'})`) });
+};
+
+// Fact-check requests get a verdict derived from the claim, so every badge can be seen offline
+const buildFactCheckText = (prompt: string): string | null => {
+  const claim = prompt.match(/Claim:\s*(".*")/);
+  if (!claim) return null;
+  const hash = hashString(JSON.parse(claim[1]));
+  const verdict = (['supported', 'unsupported', 'contradicted'] as const)[hash % 3];
+  return JSON.stringify({ verdict, confidence: 0.5 + (hash % 50) / 100, note: `Mock verdict: ${verdict}.` });
+};
+
+const buildSources = (topic: string): SearchResultItem[] => {
+  const slug = encodeURIComponent(topic.toLowerCase().replace(/\s+/g, '-'));
+  return [
+    { title: `${topic} - Mock Encyclopedia`, url: `https://example.com/encyclopedia/${slug}` },
+    { title: `Understanding ${topic} (mock source)`, url: `https://example.org/articles/${slug}` },
+    { title: `${topic}: Key Facts`, url: `https://example.net/facts/${slug}` }
+  ];
+};
+
+// Cites the first two facts and one article sentence, so citations can be tried offline
+const buildPassages = (topic: string): GroundedPassage[] => [
+  { text: `${topic} is used here as a placeholder topic for offline development.`, sources: [0] },
+  { text: 'This fact list is canned mock data and was not researched.', sources: [1, 2] },
+  { text: 'It lets the interface be demoed and developed without an API key or network access.', sources: [0, 2] }
+];
+
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+const createCanvas = () => createSizedCanvas(CANVAS_WIDTH, CANVAS_HEIGHT);
+
+const REFERENCE_THUMB_HEIGHT = 140;
+
+// The shape follows the requested format, but the size stays at 1K to keep the offline history small
+const renderPlaceholder = async (prompt: string, references: string[], format?: ImageFormat): Promise<string> => {
+  const { width, height } = format ? sizeForRatio(format.aspectRatio, CANVAS_WIDTH) : { width: CANVAS_WIDTH, height: CANVAS_HEIGHT };
+  const [canvas, ctx] = createSizedCanvas(width, height);
+  const hue = hashString(prompt) % 360;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 60%, 22%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 12%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.strokeStyle = `hsla(${hue}, 80%, 70%, 0.4)`;
+  ctx.lineWidth = 4;
+  ctx.setLineDash([16, 12]);
+  ctx.strokeRect(40, 40, width - 80, height - 80);
+  ctx.setLineDash([]);
+
+  ctx.fillStyle = `hsl(${hue}, 80%, 75%)`;
+  ctx.font = 'bold 28px sans-serif';
+  ctx.fillText('MOCK INFOGRAPHIC', 80, 110);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '32px sans-serif';
+  wrapText(ctx, prompt, width - 160).slice(0, Math.floor((height - 180) / 44)).forEach((line, i) => {
+    ctx.fillText(line, 80, 180 + i * 44);
+  });
+
+  // Reference images are shown as thumbnails along the bottom edge, right to left
+  let right = width - 60;
+  for (const reference of references) {
+    const img = await loadImage(reference);
+    const thumbWidth = img.naturalWidth * REFERENCE_THUMB_HEIGHT / img.naturalHeight;
+    right -= thumbWidth;
+    ctx.drawImage(img, right, height - 60 - REFERENCE_THUMB_HEIGHT, thumbWidth, REFERENCE_THUMB_HEIGHT);
+    right -= 16;
+  }
+
+  return canvas.toDataURL('image/png');
+};
+
+// Stamps the edit instruction over the current image so edits are visible offline
+const renderEdit = async (image: string, prompt: string): Promise<string> => {
+  const [canvas, ctx] = createCanvas();
+  const source = await loadImage(image);
+  canvas.width = source.naturalWidth || CANVAS_WIDTH;
+  canvas.height = source.naturalHeight || CANVAS_HEIGHT;
+  ctx.drawImage(source, 0, 0);
+
+  const bannerHeight = Math.round(canvas.height * 0.12);
+  ctx.fillStyle = 'rgba(6, 182, 212, 0.85)';
+  ctx.fillRect(0, canvas.height - bannerHeight, canvas.width, bannerHeight);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(bannerHeight * 0.35)}px sans-serif`;
+  const [firstLine = ''] = wrapText(ctx, `EDIT: ${prompt}`, canvas.width - 40);
+  ctx.fillText(firstLine, 20, canvas.height - bannerHeight / 2 + bannerHeight * 0.12);
+
+  return canvas.toDataURL('image/png');
+};
+
+export const mockProvider: AiProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+
+  researchText: async ({ prompt, signal, onText }) => {
+    const reply = buildTranslationText(prompt) || buildFactCheckText(prompt);
+    if (reply) {
+      await abortableDelay(MOCK_LATENCY_MS, signal);
+      onText?.(reply);
+      return { text: reply, sources: [] };
+    }
+
+    const topic = extractTopic(prompt);
+    const fromDocuments = prompt.includes('Source documents:');
+    const text = buildResearchText(topic, fromDocuments ? ' [1]' : '');
+
+    if (onText) {
+      const size = Math.ceil(text.length / MOCK_STREAM_CHUNKS);
+      for (let end = size; end < text.length + size; end += size) {
+        await abortableDelay(MOCK_LATENCY_MS / MOCK_STREAM_CHUNKS, signal);
+        onText(text.slice(0, end));
+      }
+    } else {
+      await abortableDelay(MOCK_LATENCY_MS, signal);
+    }
+    if (fromDocuments) return { text, sources: [] };
+    return { text, sources: buildSources(topic), passages: buildPassages(topic) };
+  },
+
+  generateImage: async ({ prompt, references = [], format, signal }) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    return renderPlaceholder(prompt, references, format);
+  },
+
+  editImage: async ({ image, prompt, signal }) => {
+    await abortableDelay(MOCK_LATENCY_MS, signal);
+    return renderEdit(image, prompt);
+  },
+};
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio } from "../../types";
+import { blobToDataUrl, dataUrlToBlob, toDataUrl } from "../../utils/dataUrl";
+import { orientationOf } from "../../utils/imageFormat";
+import { AiProvider, Attachment, OpenAiCompatibleConfig, ProviderRequestError } from "./types";
+
+// Works with the OpenAI API and with self-hosted servers exposing the same routes
+// (LocalAI, vLLM, Ollama, LM Studio...). Configured from the provider settings.
+let config: OpenAiCompatibleConfig = {
+  baseUrl: 'https://api.openai.com/v1',
+  apiKey: '',
+  textModel: 'gpt-4o-mini',
+  imageModel: 'gpt-image-1'
+};
+
+export const setOpenAiConfig = (next: OpenAiCompatibleConfig) => {
+  config = next;
+};
+
+const endpoint = (path: string) => `${config.baseUrl.replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (): Record<string, string> => {
+  return config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+};
+
+const send = async (path: string, init: RequestInit): Promise<Response> => {
+  const response = await fetch(endpoint(path), {
+    ...init,
+    headers: { ...authHeaders(), ...init.headers }
+  });
+
+  if (!response.ok) {
+    let detail = response.statusText;
+    try {
+      const body = await response.json();
+      detail = body?.error?.message || detail;
+    } catch {
+      // Non-JSON error body, keep the status text
+    }
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new ProviderRequestError(
+      `${response.status} ${detail}`,
+      response.status,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
+  }
+  return response;
+};
+
+const request = async (path: string, init: RequestInit): Promise<any> => {
+  const response = await send(path, init);
+  return response.json();
+};
+
+// Multi-part message: images as image_url parts, anything else (PDFs) as file parts
+const toContentParts = (prompt: string, attachments: Attachment[]) => [
+  { type: 'text', text: prompt },
+  ...attachments.map(attachment => attachment.data.startsWith('data:image/')
+    ? { type: 'image_url', image_url: { url: attachment.data } }
+    : { type: 'file', file: { filename: attachment.name, file_data: attachment.data } })
+];
+
+// Reads a chat completions server-sent event stream, reporting the text accumulated so far
+const readChatStream = async (response: Response, onText: (text: string) => void): Promise<string> => {
+  if (!response.body) {
+    const body = await response.json();
+    const text = body?.choices?.[0]?.message?.content || "";
+    onText(text);
+    return text;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let text = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || "";
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') continue;
+      try {
+        const delta = JSON.parse(data)?.choices?.[0]?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      } catch {
+        // Keep-alive comments and malformed events carry no text
+      }
+    }
+  }
+  return text;
+};
+
+// Image routes answer with either inline base64 or a temporary URL
+// The images API only offers three sizes, so ratios snap to the nearest orientation
+const closestImageSize = (ratio: AspectRatio): string => {
+  const orientation = orientationOf(ratio);
+  return orientation === 'landscape' ? '1536x1024' : orientation === 'portrait' ? '1024x1536' : '1024x1024';
+};
+
+const readImageResult = async (body: any, errorMessage: string, signal?: AbortSignal): Promise<string> => {
+  const item = body?.data?.[0];
+  if (item?.b64_json) {
+    return toDataUrl(item.b64_json);
+  }
+  if (item?.url) {
+    const image = await fetch(item.url, { signal });
+    return blobToDataUrl(await image.blob());
+  }
+  throw new Error(errorMessage);
+};
+
+export const openAiProvider: AiProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+
+  // Web search is not part of the chat completions contract, so no sources are returned
+  researchText: async ({ prompt, attachments = [], responseSchema, signal, onText }) => {
+    const response = await send('/chat/completions', {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.textModel,
+        messages: [{ role: 'user', content: attachments.length > 0 ? toContentParts(prompt, attachments) : prompt }],
+        // json_object is the structured mode most compatible servers implement
+        ...(responseSchema ? { response_format: { type: 'json_object' } } : {}),
+        ...(onText ? { stream: true } : {})
+      })
+    });
+
+    if (onText) {
+      return { text: await readChatStream(response, onText), sources: [] };
+    }
+    const body = await response.json();
+    return { text: body?.choices?.[0]?.message?.content || "", sources: [] };
+  },
+
+  generateImage: async ({ prompt, references = [], format, signal }) => {
+    const size = format ? closestImageSize(format.aspectRatio) : undefined;
+    // Reference images can only be sent to the edits route, which accepts several input images
+    if (references.length > 0) {
+      const form = new FormData();
+      form.append('model', config.imageModel);
+      form.append('prompt', prompt);
+      if (size) form.append('size', size);
+      references.forEach((reference, i) => form.append('image[]', dataUrlToBlob(reference), `reference-${i + 1}.png`));
+      const body = await request('/images/edits', { method: 'POST', body: form, signal });
+      return readImageResult(body, "Failed to generate image", signal);
+    }
+
+    const body = await request('/images/generations', {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: config.imageModel,
+        prompt,
+        n: 1,
+        ...(size && { size })
+      })
+    });
+    return readImageResult(body, "Failed to generate image", signal);
+  },
+
+  editImage: async ({ image, prompt, signal }) => {
+    const form = new FormData();
+    form.append('model', config.imageModel);
+    form.append('prompt', prompt);
+    form.append('image', dataUrlToBlob(image), 'image.png');
+
+    const body = await request('/images/edits', { method: 'POST', body: form, signal });
+    return readImageResult(body, "Failed to edit image", signal);
+  },
+};
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ImageFormat, SearchResultItem } from "../../types";
+
+// Pipeline steps that can each be served by a different backend
+export type ProviderStep = 'research' | 'image' | 'edit';
+
+// File sent along with a text request, e.g. a PDF to read
+export interface Attachment {
+  name: string;
+  data: string; // Base64 data URL
+}
+
+export interface TextRequest {
+  prompt: string;
+  attachments?: Attachment[]; // Follow the prompt, in order
+  useSearch?: boolean; // Ground the answer on web search when the backend supports it
+  responseSchema?: object; // JSON Schema the answer must follow, when the backend can enforce it
+  signal?: AbortSignal;
+  // Receives the answer accumulated so far while it streams. Backends that cannot stream
+  // call it once with the full text. A retried request starts over from an empty answer.
+  onText?: (text: string) => void;
+}
+
+// A passage of the answer and the sources backing it, as indices into TextResponse.sources
+export interface GroundedPassage {
+  text: string;
+  sources: number[];
+}
+
+export interface TextResponse {
+  text: string;
+  sources: SearchResultItem[];
+  passages?: GroundedPassage[]; // Only from backends that report grounding per passage
+}
+
+export interface ImageRequest {
+  prompt: string;
+  references?: string[]; // Base64 data URLs of images the result should follow
+  format?: ImageFormat; // Backends that cannot honour it exactly pick the closest they support
+  signal?: AbortSignal;
+}
+
+export interface EditRequest {
+  image: string; // Base64 data URL
+  prompt: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend able to run the research, generation and edit steps.
+ * Image methods resolve to base64 data URLs. Every request may carry an
+ * AbortSignal, and implementations reject with an AbortError once it fires.
+ */
+export interface AiProvider {
+  id: string;
+  label: string;
+  researchText: (request: TextRequest) => Promise<TextResponse>;
+  generateImage: (request: ImageRequest) => Promise<string>;
+  editImage: (request: EditRequest) => Promise<string>;
+}
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string;
+  apiKey: string;
+  textModel: string;
+  imageModel: string;
+}
+
+export interface ProviderSettings {
+  steps: Record<ProviderStep, string>; // Provider id per step
+  openai: OpenAiCompatibleConfig;
+}
+
+/**
+ * HTTP failure reported by a provider, carrying the status code like the Gemini SDK's ApiError.
+ */
+export class ProviderRequestError extends Error {
+  status: number;
+  retryAfterMs?: number; // From the Retry-After header, when the server sent one
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -0,0 +1,230 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isRecord } from '../utils/guards';
+
+// Structured output contract for the research step
+
+export interface ResearchPayload {
+  facts: string[];
+  articleContent: string;
+  imagePrompt: string;
+}
+
+export type ResearchSection = keyof ResearchPayload;
+
+const MAX_FACTS = 5;
+
+/**
+ * JSON Schema sent to providers that can enforce structured output.
+ */
+export const RESEARCH_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    facts: {
+      type: 'array',
+      items: { type: 'string' },
+      minItems: 3,
+      maxItems: MAX_FACTS,
+      description: 'Short, verifiable key facts about the topic.'
+    },
+    imagePrompt: {
+      type: 'string',
+      description: 'Detailed image generation prompt describing composition, colors and layout. No citations.'
+    },
+    articleContent: {
+      type: 'string',
+      description: 'Explanatory article in Markdown, with a title, introduction, key concepts and conclusion.'
+    }
+  },
+  // The prompt comes before the article so image generation can start while the article streams
+  required: ['facts', 'imagePrompt', 'articleContent']
+};
+
+/**
+ * Raised when a research response does not match the schema.
+ * `sections` names every field that was missing or malformed.
+ */
+export class ResearchValidationError extends Error {
+  sections: ResearchSection[];
+  partial: Partial<ResearchPayload>;
+
+  constructor(sections: ResearchSection[], partial: Partial<ResearchPayload>) {
+    super(`Research response is missing or has an invalid ${sections.join(', ')} section`);
+    this.name = 'ResearchValidationError';
+    this.sections = sections;
+    this.partial = partial;
+  }
+}
+
+// Models often wrap JSON in a Markdown fence or add a sentence around it.
+// The article may hold fenced code of its own, so a fence only counts when it wraps the whole answer.
+export const extractJsonObject = (text: string): string | null => {
+  const trimmed = text.trim();
+  try {
+    const data = JSON.parse(trimmed);
+    if (typeof data === 'object' && data !== null && !Array.isArray(data)) return trimmed;
+  } catch {
+    // Not bare JSON; look for it inside the text
+  }
+  const fenced = trimmed.match(/^\s*```(?:json)?\s*([\s\S]*)```\s*$/i);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  return candidate.slice(start, end + 1);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+/**
+ * Parses and validates a raw model response. Throws ResearchValidationError with
+ * whatever sections were usable, so callers can repair or fall back selectively.
+ */
+export const parseResearchResponse = (text: string): ResearchPayload => {
+  const json = extractJsonObject(text);
+  let data: unknown = null;
+  if (json) {
+    try {
+      data = JSON.parse(json);
+    } catch {
+      data = null;
+    }
+  }
+
+  if (!isRecord(data)) {
+    throw new ResearchValidationError(['facts', 'articleContent', 'imagePrompt'], {});
+  }
+
+  const partial: Partial<ResearchPayload> = {};
+  const invalid: ResearchSection[] = [];
+
+  if (Array.isArray(data.facts) && data.facts.some(isNonEmptyString)) {
+    partial.facts = data.facts.filter(isNonEmptyString).map(f => f.trim()).slice(0, MAX_FACTS);
+  } else {
+    invalid.push('facts');
+  }
+
+  if (isNonEmptyString(data.articleContent)) {
+    partial.articleContent = data.articleContent.trim();
+  } else {
+    invalid.push('articleContent');
+  }
+
+  if (isNonEmptyString(data.imagePrompt)) {
+    partial.imagePrompt = data.imagePrompt.trim();
+  } else {
+    invalid.push('imagePrompt');
+  }
+
+  if (invalid.length > 0) {
+    throw new ResearchValidationError(invalid, partial);
+  }
+  return partial as ResearchPayload;
+};
+
+interface StringToken {
+  value: string;
+  done: boolean; // False when the text ended before the closing quote
+  end: number;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '"': '"', '\\': '\\', '/': '/' };
+
+// Reads a JSON string starting at its opening quote, tolerating a truncated end
+const readString = (text: string, start: number): StringToken => {
+  let value = '';
+  let i = start + 1;
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"') return { value, done: true, end: i + 1 };
+    if (char === '\\') {
+      const escape = text[i + 1];
+      if (escape === undefined) break;
+      if (escape === 'u') {
+        if (i + 6 > text.length) break;
+        value += String.fromCharCode(parseInt(text.slice(i + 2, i + 6), 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[escape] ?? escape;
+      i += 2;
+      continue;
+    }
+    value += char;
+    i++;
+  }
+  return { value, done: false, end: text.length };
+};
+
+/**
+ * Research as far as it has streamed. Strings may be cut mid-sentence;
+ * `complete` lists the sections whose value has been fully received.
+ */
+export interface PartialResearch extends Partial<ResearchPayload> {
+  complete: ResearchSection[];
+}
+
+/**
+ * Best-effort reading of an unfinished research answer. Stops at the first
+ * thing it does not understand, so it never throws.
+ */
+export const parsePartialResearch = (text: string): PartialResearch => {
+  const result: PartialResearch = { complete: [] };
+  let i = text.indexOf('{');
+  if (i === -1) return result;
+  i++;
+
+  const skipSeparators = () => {
+    while (i < text.length && /[\s,:]/.test(text[i])) i++;
+  };
+
+  while (i < text.length) {
+    skipSeparators();
+    if (text[i] !== '"') break;
+    const key = readString(text, i);
+    if (!key.done) break;
+    i = key.end;
+    skipSeparators();
+
+    if (text[i] === '"') {
+      const value = readString(text, i);
+      i = value.end;
+      if (key.value === 'articleContent' || key.value === 'imagePrompt') {
+        result[key.value] = value.value;
+        if (value.done) result.complete.push(key.value);
+      }
+      if (!value.done) break;
+    } else if (text[i] === '[') {
+      i++;
+      const items: string[] = [];
+      let closed = false;
+      while (i < text.length) {
+        skipSeparators();
+        if (text[i] === ']') {
+          closed = true;
+          i++;
+          break;
+        }
+        if (text[i] !== '"') break;
+        const item = readString(text, i);
+        i = item.end;
+        // Only whole facts are shown, a half-written one would flicker
+        if (!item.done) break;
+        items.push(item.value);
+      }
+      if (key.value === 'facts') {
+        result.facts = items.filter(isNonEmptyString).map(f => f.trim()).slice(0, MAX_FACTS);
+        if (closed) result.complete.push('facts');
+      }
+      if (!closed) break;
+    } else {
+      break;
+    }
+  }
+
+  return result;
+};
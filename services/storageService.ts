@@ -0,0 +1,159 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage } from "../types";
+
+const DB_NAME = 'infogenius_library';
+const DB_VERSION = 1;
+const STORE_NAME = 'images';
+
+// Keep the library below this share of the origin quota so the browser never refuses a save
+const MAX_QUOTA_USAGE = 0.8;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+
+    // Ask the browser not to wipe the library under storage pressure (best effort)
+    navigator.storage?.persist?.().catch(() => undefined);
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const request = operation(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// Rough byte size of a record, dominated by the base64 image and the article
+const estimateRecordSize = (image: GeneratedImage): number => {
+  return JSON.stringify(image).length * 2;
+};
+
+const isQuotaError = (err: any): boolean => {
+  return err?.name === 'QuotaExceededError' || err?.code === 22;
+};
+
+/**
+ * Loads every stored infographic, newest first.
+ */
+export const loadImages = async (): Promise<GeneratedImage[]> => {
+  const images = await runTransaction<GeneratedImage[]>('readonly', store => store.getAll());
+  return (images || []).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const deleteImages = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  await runTransaction('readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+};
+
+export const clearLibrary = async (): Promise<void> => {
+  await runTransaction('readwrite', store => store.clear());
+};
+
+/**
+ * Deletes the oldest records until roughly `bytesToFree` have been released.
+ * The record with `keepId` is never evicted. Returns the ids that were removed.
+ */
+const evictOldest = async (bytesToFree: number, keepId: string): Promise<string[]> => {
+  const images = await loadImages();
+  const evicted: string[] = [];
+  let freed = 0;
+
+  for (let i = images.length - 1; i >= 0 && freed < bytesToFree; i--) {
+    if (images[i].id === keepId) continue;
+    evicted.push(images[i].id);
+    freed += estimateRecordSize(images[i]);
+  }
+
+  await deleteImages(evicted);
+  return evicted;
+};
+
+// Frees space ahead of a write when the origin is already close to its quota
+const enforceQuota = async (incoming: GeneratedImage): Promise<string[]> => {
+  if (!navigator.storage?.estimate) return [];
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  if (!quota) return [];
+
+  const projected = usage + estimateRecordSize(incoming);
+  const limit = quota * MAX_QUOTA_USAGE;
+  if (projected <= limit) return [];
+
+  return evictOldest(projected - limit, incoming.id);
+};
+
+/**
+ * Stores (or replaces) an infographic. When space runs out the oldest entries are
+ * evicted first; the ids of evicted entries are returned so callers can sync their state.
+ */
+export const saveImage = async (image: GeneratedImage): Promise<string[]> => {
+  const evicted = await enforceQuota(image);
+
+  try {
+    await runTransaction('readwrite', store => store.put(image));
+  } catch (err) {
+    if (!isQuotaError(err)) throw err;
+
+    // The estimate was too optimistic: free a generous amount and try once more
+    const retryEvicted = await evictOldest(estimateRecordSize(image) * 2, image.id);
+    if (retryEvicted.length === 0) throw err;
+    evicted.push(...retryEvicted);
+    await runTransaction('readwrite', store => store.put(image));
+  }
+
+  return evicted;
+};
+
+// Bumped whenever the shape of exported library files changes
+export const LIBRARY_EXPORT_VERSION = 1;
+
+export interface LibraryExport {
+  app: 'infogenius';
+  version: number;
+  exportedAt: number;
+  images: GeneratedImage[];
+}
+
+/**
+ * Serializes library entries into a portable JSON document.
+ */
+export const exportLibrary = (images: GeneratedImage[]): Blob => {
+  const payload: LibraryExport = {
+    app: 'infogenius',
+    version: LIBRARY_EXPORT_VERSION,
+    exportedAt: Date.now(),
+    images
+  };
+  return new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+};
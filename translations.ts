@@ -3,7 +3,21 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { UiLanguage } from "./types";
+import { UiLanguage, Language, ComplexityLevel, VisualStyle } from "./types";
+
+// Content languages are always shown by their native name, whatever the UI language
+export const languageNames: Record<Language, string> = {
+  Portuguese: "Português",
+  English: "English",
+  Spanish: "Español",
+  French: "Français",
+  German: "Deutsch",
+  Mandarin: "普通话 (Mandarin)",
+  Japanese: "日本語 (Japanese)",
+  Hindi: "हिन्दी (Hindi)",
+  Arabic: "العربية (Arabic)",
+  Russian: "Русский (Russian)"
+};
 
 export const translations = {
   pt: {
@@ -30,13 +44,43 @@ export const translations = {
       style: "Estética",
       language: "Idioma do Conteúdo",
       button: "INICIAR",
-      format: "Formato 16:9"
+      format: "Formato {format}",
+      pendingResearch: "A pesquisa sobre “{topic}” foi mantida após o cancelamento. INICIAR com as mesmas opções reutiliza essa pesquisa.",
+      discardResearch: "Descartar",
+      reviewPrompt: "Revisar comando antes de gerar",
+      variants: "Variantes"
+    },
+    review: {
+      title: "Revisar Comando da Imagem",
+      desc: "Ajuste os fatos e o comando antes que a imagem seja gerada.",
+      facts: "Fatos-chave",
+      addFact: "Adicionar fato",
+      removeFact: "Remover fato",
+      prompt: "Comando da imagem",
+      snippets: "Trechos salvos",
+      noSnippets: "Nenhum trecho salvo ainda.",
+      snippetName: "Nome do trecho",
+      saveSnippet: "Salvar comando como trecho",
+      deleteSnippet: "Excluir trecho",
+      cancel: "Cancelar",
+      generate: "Gerar Imagem"
+    },
+    variants: {
+      title: "Variantes",
+      desc: "Escolha a melhor ou mantenha várias no histórico.",
+      variant: "Variante",
+      select: "Selecionar para manter",
+      pickWinner: "Escolher esta",
+      keepSelected: "Manter selecionadas ({count})",
+      discard: "Descartar todas"
     },
     loading: {
       connecting: "Estabelecendo conexão...",
       researching: "Pesquisando tópico...",
       designing: "Projetando Infográfico...",
       processing: "Processando modificação...",
+      cancel: "Cancelar",
+      fixing: "Corrigindo legibilidade...",
       flying: {
         history: "HISTÓRIA",
         science: "CIÊNCIA",
@@ -44,12 +88,71 @@ export const translations = {
         data: "DADOS"
       }
     },
+    factCheck: {
+      toggle: "Verificar fatos nas fontes",
+      verifying: "Verificando fatos nas fontes...",
+      verdicts: {
+        supported: "Confirmado",
+        unsupported: "Sem evidência",
+        contradicted: "Contestado"
+      },
+      confidence: "Confiança: {n}%",
+      excluded: "Fora da imagem",
+      unverified: "Não verificado"
+    },
+    format: {
+      label: "Formato",
+      presets: "Predefinições",
+      ratios: "Proporções",
+      resolution: "Resolução",
+      paid: "modelo pago",
+      paidHint: "2K e 4K usam o Gemini 3 Pro Image, que não tem cota gratuita",
+      presetNames: { poster: "Pôster", story: "Story (redes sociais)", slide: "Slide" },
+      orientations: { landscape: "Paisagem", portrait: "Retrato", square: "Quadrado" }
+    },
+    references: {
+      attach: "Anexar imagem de referência",
+      hint: "Foto de quadro, esboço ou diagrama que o infográfico deve seguir",
+      label: "Referência",
+      remove: "Remover referência",
+      tooMany: "Máximo de {n} imagens de referência",
+      failed: "Não foi possível ler {name}",
+      used: "Referências usadas"
+    },
+    documents: {
+      button: "Fontes próprias",
+      title: "Documentos de origem",
+      desc: "Envie notas de aula, PDFs ou cole o conteúdo de páginas. Enquanto houver documentos aqui, a pesquisa usa somente eles, sem busca na web, e as citações apontam para eles.",
+      upload: "Enviar arquivos",
+      formats: "TXT, Markdown ou PDF, até {size} cada",
+      paste: "Colar texto",
+      pasteName: "Título ou URL de origem (opcional)",
+      pastePlaceholder: "Cole aqui o texto de uma página ou anotação...",
+      addPasted: "Adicionar texto",
+      pastedName: "Texto colado {n}",
+      remove: "Remover documento",
+      clear: "Remover todos",
+      close: "Fechar",
+      unsupported: "{name}: formato não suportado",
+      tooLarge: "{name}: maior que {size}",
+      readFailed: "Não foi possível ler {name}",
+      active: "Pesquisa baseada em {n} documento(s) seu(s)",
+      uploaded: "Documento enviado"
+    },
+    citations: {
+      source: "Fonte {n}",
+      open: "Abrir fonte"
+    },
     results: {
       title: "Fontes de Pesquisa",
       external: "Fonte Externa"
     },
     article: {
       label: "Artigo Explicativo",
+      writing: "Escrevendo...",
+      contents: "Sumário",
+      anchor: "Link para esta seção",
+      facts: "Fatos-chave",
       copy: "Copiar",
       print: "Imprimir / PDF",
       reportTitle: "Relatório Científico",
@@ -60,16 +163,126 @@ export const translations = {
       editPlaceholder: "Refinar o visual (ex: 'Faça o fundo estrelado')...",
       enhance: "Melhorar",
       fullscreen: "Tela Cheia",
-      download: "Baixar Imagem"
+      download: "Baixar Imagem",
+      compare: "Comparar Versões"
+    },
+    legibility: {
+      button: "Corrigir legibilidade",
+      options: "Correções",
+      auto: "Corrigir legibilidade automaticamente",
+      version: "Legibilidade",
+      fixes: {
+        enlargeText: "Aumentar textos",
+        reduceClutter: "Reduzir poluição visual",
+        fixSpelling: "Corrigir ortografia"
+      }
+    },
+    region: {
+      button: "Editar região",
+      brush: "Pincel",
+      rectangle: "Retângulo",
+      brushSize: "Tamanho do pincel",
+      clear: "Limpar máscara",
+      hint: "Pinte a área que deve mudar...",
+      placeholder: "O que mudar nesta região?",
+      apply: "Aplicar",
+      version: "Região"
+    },
+    overlay: {
+      button: "Editar rótulos",
+      addLabel: "Rótulo",
+      addArrow: "Seta",
+      newLabel: "Novo rótulo",
+      translate: "Traduzir rótulos",
+      translateFailed: "Não foi possível traduzir os rótulos.",
+      text: "Texto",
+      size: "Tamanho",
+      color: "Cor",
+      halo: "Contorno",
+      bold: "Negrito",
+      thickness: "Espessura",
+      delete: "Excluir",
+      cancel: "Cancelar",
+      save: "Salvar"
+    },
+    pdf: {
+      button: "PDF",
+      paperSize: "Tamanho do papel",
+      download: "Baixar PDF",
+      exporting: "Gerando PDF...",
+      failed: "Não foi possível gerar o PDF.",
+      sizes: { a4: "A4", letter: "Carta", a3: "A3" },
+      facts: "Fatos-chave",
+      sources: "Fontes",
+      page: "Página {page} de {total}"
+    },
+    slides: {
+      button: "PPTX",
+      download: "Baixar apresentação (PPTX)",
+      exporting: "Gerando slides...",
+      failed: "Não foi possível gerar a apresentação.",
+      facts: "Fatos-chave",
+      sources: "Fontes",
+      continued: "cont."
+    },
+    bundle: {
+      button: "ZIP",
+      download: "Baixar pacote (Markdown + HTML)",
+      exporting: "Gerando pacote...",
+      failed: "Não foi possível gerar o pacote.",
+      facts: "Fatos-chave",
+      sources: "Fontes",
+      sourcesNote: "Fontes da pesquisa: veja sources.md."
+    },
+    compare: {
+      sideBySide: "Lado a lado",
+      slider: "Antes / Depois",
+      swap: "Inverter",
+      before: "Antes",
+      after: "Depois"
     },
     history: {
-      title: "Arquivos da Sessão"
+      title: "Arquivos da Sessão",
+      clear: "Limpar Biblioteca",
+      clearConfirm: "Apagar todos os infográficos salvos neste navegador? Esta ação não pode ser desfeita.",
+      viewAll: "Ver Biblioteca"
+    },
+    library: {
+      title: "Biblioteca",
+      open: "Biblioteca",
+      count: "{shown} de {total} infográficos",
+      searchPlaceholder: "Buscar por tópico ou comando...",
+      allLevels: "Todos os públicos",
+      allStyles: "Todas as estéticas",
+      allLanguages: "Todos os idiomas",
+      newest: "Mais recentes",
+      oldest: "Mais antigos",
+      resetFilters: "Limpar filtros",
+      selectAll: "Selecionar todos",
+      exportSelected: "Exportar",
+      importFiles: "Importar",
+      importHint: "Importar pacotes .zip ou arquivos .json exportados",
+      importing: "Importando...",
+      importResult: "{added} importado(s), {duplicates} duplicado(s) ignorado(s), {invalid} inválido(s)",
+      importFailed: "Não foi possível importar os arquivos",
+      deleteSelected: "Excluir",
+      deleteConfirm: "Excluir {count} infográfico(s) da biblioteca?",
+      empty: "Nenhum infográfico encontrado."
+    },
+    versions: {
+      title: "Árvore de Versões",
+      chain: "Cadeia de edições",
+      current: "Atual",
+      fork: "Ramificar",
+      forkHint: "Tornar esta versão a atual e editar a partir dela",
+      compareSiblings: "Comparar variações",
+      compareWithCurrent: "Comparar com a atual"
     },
     apiModal: {
       title: "Gerenciar Chaves API",
       desc: "Configure suas credenciais do Google Gemini.",
       rotationTitle: "Rotação Automática",
-      rotationDesc: "Você pode inserir múltiplas chaves (uma por linha). Se uma chave atingir o limite de cota, o sistema tentará a próxima automaticamente.",
+      rotationDesc: "Você pode inserir múltiplas chaves (uma por linha). As requisições são distribuídas entre as chaves disponíveis; chaves que atingem o limite de cota ficam em espera e o sistema tenta a próxima automaticamente.",
       label: "Chaves API do Gemini",
       placeholder: "Cole suas chaves aqui (uma por linha)...\nAIzaSy...\nAIzaSy...",
       save: "Salvar Chaves",
@@ -80,7 +293,28 @@ export const translations = {
       instructions: "O Gemini 2.5 Flash possui um nível gratuito generoso. Para obter sua chave:",
       step1: "Acesse o Google AI Studio.",
       step2: "Clique em 'Create API Key'.",
-      step3: "Copie a chave e cole no campo acima."
+      step3: "Copie a chave e cole no campo acima.",
+      statsTitle: "Uso por chave",
+      successes: "Sucessos",
+      failures: "Falhas",
+      lastError: "Último erro",
+      healthy: "Disponível",
+      coolingDown: "Em espera"
+    },
+    providers: {
+      button: "Provedores",
+      title: "Provedores de IA",
+      desc: "Escolha qual serviço executa cada etapa do pipeline.",
+      research: "Pesquisa (texto)",
+      image: "Geração de imagem",
+      edit: "Edição de imagem",
+      openAiTitle: "Endpoint compatível com OpenAI",
+      openAiDesc: "Funciona com a API da OpenAI e servidores próprios que expõem as mesmas rotas (LocalAI, vLLM, Ollama...). A pesquisa por esse endpoint não usa busca na web.",
+      baseUrl: "URL Base",
+      apiKey: "Chave API",
+      textModel: "Modelo de texto",
+      imageModel: "Modelo de imagem",
+      save: "Salvar Provedores"
     },
     errors: {
       topicRequired: "Por favor, digite um tópico para visualizar.",
@@ -132,13 +366,43 @@ export const translations = {
       style: "Aesthetic",
       language: "Content Language",
       button: "START",
-      format: "16:9 Format"
+      format: "{format} format",
+      pendingResearch: "The research on “{topic}” was kept after cancelling. START with the same options reuses it.",
+      discardResearch: "Discard",
+      reviewPrompt: "Review prompt before generating",
+      variants: "Variants"
+    },
+    review: {
+      title: "Review Image Prompt",
+      desc: "Adjust the facts and the prompt before the image is generated.",
+      facts: "Key facts",
+      addFact: "Add fact",
+      removeFact: "Remove fact",
+      prompt: "Image prompt",
+      snippets: "Saved snippets",
+      noSnippets: "No saved snippets yet.",
+      snippetName: "Snippet name",
+      saveSnippet: "Save prompt as snippet",
+      deleteSnippet: "Delete snippet",
+      cancel: "Cancel",
+      generate: "Generate Image"
+    },
+    variants: {
+      title: "Variants",
+      desc: "Pick the best one or keep several in history.",
+      variant: "Variant",
+      select: "Select to keep",
+      pickWinner: "Pick this one",
+      keepSelected: "Keep selected ({count})",
+      discard: "Discard all"
     },
     loading: {
       connecting: "Establishing connection...",
       researching: "Researching topic...",
       designing: "Designing Infographic...",
       processing: "Processing modification...",
+      cancel: "Cancel",
+      fixing: "Fixing legibility...",
       flying: {
         history: "HISTORY",
         science: "SCIENCE",
@@ -146,12 +410,71 @@ export const translations = {
         data: "DATA"
       }
     },
+    factCheck: {
+      toggle: "Fact-check against sources",
+      verifying: "Checking facts against sources...",
+      verdicts: {
+        supported: "Supported",
+        unsupported: "Unsupported",
+        contradicted: "Contradicted"
+      },
+      confidence: "Confidence: {n}%",
+      excluded: "Left out of the image",
+      unverified: "Not verified"
+    },
+    format: {
+      label: "Format",
+      presets: "Presets",
+      ratios: "Aspect ratios",
+      resolution: "Resolution",
+      paid: "paid model",
+      paidHint: "2K and 4K use Gemini 3 Pro Image, which has no free tier",
+      presetNames: { poster: "Poster", story: "Social story", slide: "Slide" },
+      orientations: { landscape: "Landscape", portrait: "Portrait", square: "Square" }
+    },
+    references: {
+      attach: "Attach reference image",
+      hint: "Whiteboard photo, sketch or diagram the infographic should follow",
+      label: "Reference",
+      remove: "Remove reference",
+      tooMany: "At most {n} reference images",
+      failed: "Could not read {name}",
+      used: "References used"
+    },
+    documents: {
+      button: "Own sources",
+      title: "Source documents",
+      desc: "Upload lecture notes or PDFs, or paste the content of web pages. While there are documents here, research uses only them, without web search, and citations point to them.",
+      upload: "Upload files",
+      formats: "TXT, Markdown or PDF, up to {size} each",
+      paste: "Paste text",
+      pasteName: "Title or source URL (optional)",
+      pastePlaceholder: "Paste the text of a page or note here...",
+      addPasted: "Add text",
+      pastedName: "Pasted text {n}",
+      remove: "Remove document",
+      clear: "Remove all",
+      close: "Close",
+      unsupported: "{name}: unsupported format",
+      tooLarge: "{name}: larger than {size}",
+      readFailed: "Could not read {name}",
+      active: "Research based on {n} of your document(s)",
+      uploaded: "Uploaded document"
+    },
+    citations: {
+      source: "Source {n}",
+      open: "Open source"
+    },
     results: {
       title: "Research Sources",
       external: "External Source"
     },
     article: {
       label: "Explanatory Article",
+      writing: "Writing...",
+      contents: "Contents",
+      anchor: "Link to this section",
+      facts: "Key facts",
       copy: "Copy",
       print: "Print / PDF",
       reportTitle: "Scientific Report",
@@ -162,16 +485,126 @@ export const translations = {
       editPlaceholder: "Refine visuals (e.g., 'Make the background starry')...",
       enhance: "Enhance",
       fullscreen: "Fullscreen",
-      download: "Download Image"
+      download: "Download Image",
+      compare: "Compare Versions"
+    },
+    legibility: {
+      button: "Fix legibility",
+      options: "Corrections",
+      auto: "Auto-fix legibility",
+      version: "Legibility",
+      fixes: {
+        enlargeText: "Enlarge text",
+        reduceClutter: "Reduce clutter",
+        fixSpelling: "Fix misspellings"
+      }
+    },
+    region: {
+      button: "Edit region",
+      brush: "Brush",
+      rectangle: "Rectangle",
+      brushSize: "Brush size",
+      clear: "Clear mask",
+      hint: "Paint the area that should change...",
+      placeholder: "What should change in this region?",
+      apply: "Apply",
+      version: "Region"
+    },
+    overlay: {
+      button: "Edit labels",
+      addLabel: "Label",
+      addArrow: "Arrow",
+      newLabel: "New label",
+      translate: "Translate labels",
+      translateFailed: "Could not translate the labels.",
+      text: "Text",
+      size: "Size",
+      color: "Color",
+      halo: "Outline",
+      bold: "Bold",
+      thickness: "Thickness",
+      delete: "Delete",
+      cancel: "Cancel",
+      save: "Save"
+    },
+    pdf: {
+      button: "PDF",
+      paperSize: "Paper size",
+      download: "Download PDF",
+      exporting: "Building PDF...",
+      failed: "Could not build the PDF.",
+      sizes: { a4: "A4", letter: "Letter", a3: "A3" },
+      facts: "Key Facts",
+      sources: "Sources",
+      page: "Page {page} of {total}"
+    },
+    slides: {
+      button: "PPTX",
+      download: "Download slide deck (PPTX)",
+      exporting: "Building slides...",
+      failed: "Could not build the slide deck.",
+      facts: "Key Facts",
+      sources: "Sources",
+      continued: "cont."
+    },
+    bundle: {
+      button: "ZIP",
+      download: "Download bundle (Markdown + HTML)",
+      exporting: "Building bundle...",
+      failed: "Could not build the bundle.",
+      facts: "Key Facts",
+      sources: "Sources",
+      sourcesNote: "Research sources: see sources.md."
+    },
+    compare: {
+      sideBySide: "Side by side",
+      slider: "Before / After",
+      swap: "Swap",
+      before: "Before",
+      after: "After"
     },
     history: {
-      title: "Session Archives"
+      title: "Session Archives",
+      clear: "Clear Library",
+      clearConfirm: "Delete every infographic saved in this browser? This cannot be undone.",
+      viewAll: "Open Library"
+    },
+    library: {
+      title: "Library",
+      open: "Library",
+      count: "{shown} of {total} infographics",
+      searchPlaceholder: "Search by topic or prompt...",
+      allLevels: "All audiences",
+      allStyles: "All aesthetics",
+      allLanguages: "All languages",
+      newest: "Newest first",
+      oldest: "Oldest first",
+      resetFilters: "Reset filters",
+      selectAll: "Select all",
+      exportSelected: "Export",
+      importFiles: "Import",
+      importHint: "Import exported .zip bundles or .json files",
+      importing: "Importing...",
+      importResult: "{added} imported, {duplicates} duplicate(s) skipped, {invalid} invalid",
+      importFailed: "Could not import the files",
+      deleteSelected: "Delete",
+      deleteConfirm: "Delete {count} infographic(s) from the library?",
+      empty: "No infographics found."
+    },
+    versions: {
+      title: "Version Tree",
+      chain: "Edit chain",
+      current: "Current",
+      fork: "Fork",
+      forkHint: "Make this version current and edit from it",
+      compareSiblings: "Compare siblings",
+      compareWithCurrent: "Compare with current"
     },
     apiModal: {
       title: "Manage API Keys",
       desc: "Configure your Google Gemini credentials.",
       rotationTitle: "Automatic Rotation",
-      rotationDesc: "You can enter multiple keys (one per line). If a key reaches its quota limit, the system will automatically try the next one.",
+      rotationDesc: "You can enter multiple keys (one per line). Requests are spread across available keys; keys that hit their quota limit cool down and the system automatically tries the next one.",
       label: "Gemini API Keys",
       placeholder: "Paste your keys here (one per line)...\nAIzaSy...\nAIzaSy...",
       save: "Save Keys",
@@ -182,7 +615,28 @@ export const translations = {
       instructions: "Gemini 2.5 Flash has a generous free tier. To get your key:",
       step1: "Go to Google AI Studio.",
       step2: "Click 'Create API Key'.",
-      step3: "Copy the key and paste it above."
+      step3: "Copy the key and paste it above.",
+      statsTitle: "Usage per key",
+      successes: "Successes",
+      failures: "Failures",
+      lastError: "Last error",
+      healthy: "Available",
+      coolingDown: "Cooling down"
+    },
+    providers: {
+      button: "Providers",
+      title: "AI Providers",
+      desc: "Choose which service runs each step of the pipeline.",
+      research: "Research (text)",
+      image: "Image generation",
+      edit: "Image editing",
+      openAiTitle: "OpenAI-compatible endpoint",
+      openAiDesc: "Works with the OpenAI API and self-hosted servers exposing the same routes (LocalAI, vLLM, Ollama...). Research through this endpoint does not use web search.",
+      baseUrl: "Base URL",
+      apiKey: "API Key",
+      textModel: "Text model",
+      imageModel: "Image model",
+      save: "Save Providers"
     },
     errors: {
       topicRequired: "Please enter a topic to visualize.",
@@ -234,13 +688,43 @@ export const translations = {
       style: "Estética",
       language: "Idioma del Contenido",
       button: "INICIAR",
-      format: "Formato 16:9"
+      format: "Formato {format}",
+      pendingResearch: "La investigación sobre “{topic}” se conservó tras la cancelación. INICIAR con las mismas opciones la reutiliza.",
+      discardResearch: "Descartar",
+      reviewPrompt: "Revisar el comando antes de generar",
+      variants: "Variantes"
+    },
+    review: {
+      title: "Revisar Comando de la Imagen",
+      desc: "Ajusta los hechos y el comando antes de generar la imagen.",
+      facts: "Hechos clave",
+      addFact: "Añadir hecho",
+      removeFact: "Quitar hecho",
+      prompt: "Comando de la imagen",
+      snippets: "Fragmentos guardados",
+      noSnippets: "Aún no hay fragmentos guardados.",
+      snippetName: "Nombre del fragmento",
+      saveSnippet: "Guardar comando como fragmento",
+      deleteSnippet: "Eliminar fragmento",
+      cancel: "Cancelar",
+      generate: "Generar Imagen"
+    },
+    variants: {
+      title: "Variantes",
+      desc: "Elige la mejor o conserva varias en el historial.",
+      variant: "Variante",
+      select: "Seleccionar para conservar",
+      pickWinner: "Elegir esta",
+      keepSelected: "Conservar seleccionadas ({count})",
+      discard: "Descartar todas"
     },
     loading: {
       connecting: "Estableciendo conexión...",
       researching: "Investigando tema...",
       designing: "Diseñando Infografía...",
       processing: "Procesando modificación...",
+      cancel: "Cancelar",
+      fixing: "Corrigiendo legibilidad...",
       flying: {
         history: "HISTORIA",
         science: "CIENCIA",
@@ -248,12 +732,71 @@ export const translations = {
         data: "DATOS"
       }
     },
+    factCheck: {
+      toggle: "Verificar datos en las fuentes",
+      verifying: "Verificando datos en las fuentes...",
+      verdicts: {
+        supported: "Confirmado",
+        unsupported: "Sin evidencia",
+        contradicted: "Refutado"
+      },
+      confidence: "Confianza: {n}%",
+      excluded: "Fuera de la imagen",
+      unverified: "No verificado"
+    },
+    format: {
+      label: "Formato",
+      presets: "Predefinidos",
+      ratios: "Proporciones",
+      resolution: "Resolución",
+      paid: "modelo de pago",
+      paidHint: "2K y 4K usan Gemini 3 Pro Image, que no tiene cuota gratuita",
+      presetNames: { poster: "Póster", story: "Story (redes sociales)", slide: "Diapositiva" },
+      orientations: { landscape: "Horizontal", portrait: "Vertical", square: "Cuadrado" }
+    },
+    references: {
+      attach: "Adjuntar imagen de referencia",
+      hint: "Foto de pizarra, boceto o diagrama que la infografía debe seguir",
+      label: "Referencia",
+      remove: "Quitar referencia",
+      tooMany: "Máximo de {n} imágenes de referencia",
+      failed: "No se pudo leer {name}",
+      used: "Referencias usadas"
+    },
+    documents: {
+      button: "Fuentes propias",
+      title: "Documentos de origen",
+      desc: "Sube apuntes de clase o PDFs, o pega el contenido de páginas. Mientras haya documentos aquí, la investigación usa solo ellos, sin búsqueda web, y las citas apuntan a ellos.",
+      upload: "Subir archivos",
+      formats: "TXT, Markdown o PDF, hasta {size} cada uno",
+      paste: "Pegar texto",
+      pasteName: "Título o URL de origen (opcional)",
+      pastePlaceholder: "Pega aquí el texto de una página o nota...",
+      addPasted: "Añadir texto",
+      pastedName: "Texto pegado {n}",
+      remove: "Quitar documento",
+      clear: "Quitar todos",
+      close: "Cerrar",
+      unsupported: "{name}: formato no compatible",
+      tooLarge: "{name}: mayor que {size}",
+      readFailed: "No se pudo leer {name}",
+      active: "Investigación basada en {n} documento(s) tuyo(s)",
+      uploaded: "Documento subido"
+    },
+    citations: {
+      source: "Fuente {n}",
+      open: "Abrir fuente"
+    },
     results: {
       title: "Fuentes de Investigación",
       external: "Fuente Externa"
     },
     article: {
       label: "Artículo Explicativo",
+      writing: "Escribiendo...",
+      contents: "Índice",
+      anchor: "Enlace a esta sección",
+      facts: "Datos clave",
       copy: "Copiar",
       print: "Imprimir / PDF",
       reportTitle: "Informe Científico",
@@ -264,16 +807,126 @@ export const translations = {
       editPlaceholder: "Refinar visuales (ej: 'Haz el fondo estrellado')...",
       enhance: "Mejorar",
       fullscreen: "Pantalla Completa",
-      download: "Descargar Imagen"
+      download: "Descargar Imagen",
+      compare: "Comparar Versiones"
+    },
+    legibility: {
+      button: "Corregir legibilidad",
+      options: "Correcciones",
+      auto: "Corregir legibilidad automáticamente",
+      version: "Legibilidad",
+      fixes: {
+        enlargeText: "Agrandar textos",
+        reduceClutter: "Reducir el desorden",
+        fixSpelling: "Corregir ortografía"
+      }
+    },
+    region: {
+      button: "Editar región",
+      brush: "Pincel",
+      rectangle: "Rectángulo",
+      brushSize: "Tamaño del pincel",
+      clear: "Borrar máscara",
+      hint: "Pinta el área que debe cambiar...",
+      placeholder: "¿Qué cambiar en esta región?",
+      apply: "Aplicar",
+      version: "Región"
+    },
+    overlay: {
+      button: "Editar etiquetas",
+      addLabel: "Etiqueta",
+      addArrow: "Flecha",
+      newLabel: "Nueva etiqueta",
+      translate: "Traducir etiquetas",
+      translateFailed: "No se pudieron traducir las etiquetas.",
+      text: "Texto",
+      size: "Tamaño",
+      color: "Color",
+      halo: "Contorno",
+      bold: "Negrita",
+      thickness: "Grosor",
+      delete: "Eliminar",
+      cancel: "Cancelar",
+      save: "Guardar"
+    },
+    pdf: {
+      button: "PDF",
+      paperSize: "Tamaño del papel",
+      download: "Descargar PDF",
+      exporting: "Generando PDF...",
+      failed: "No se pudo generar el PDF.",
+      sizes: { a4: "A4", letter: "Carta", a3: "A3" },
+      facts: "Datos clave",
+      sources: "Fuentes",
+      page: "Página {page} de {total}"
+    },
+    slides: {
+      button: "PPTX",
+      download: "Descargar presentación (PPTX)",
+      exporting: "Generando diapositivas...",
+      failed: "No se pudo generar la presentación.",
+      facts: "Datos clave",
+      sources: "Fuentes",
+      continued: "cont."
+    },
+    bundle: {
+      button: "ZIP",
+      download: "Descargar paquete (Markdown + HTML)",
+      exporting: "Generando paquete...",
+      failed: "No se pudo generar el paquete.",
+      facts: "Datos clave",
+      sources: "Fuentes",
+      sourcesNote: "Fuentes de la investigación: ver sources.md."
+    },
+    compare: {
+      sideBySide: "Lado a lado",
+      slider: "Antes / Después",
+      swap: "Intercambiar",
+      before: "Antes",
+      after: "Después"
     },
     history: {
-      title: "Archivos de Sesión"
+      title: "Archivos de Sesión",
+      clear: "Vaciar Biblioteca",
+      clearConfirm: "¿Eliminar todas las infografías guardadas en este navegador? Esta acción no se puede deshacer.",
+      viewAll: "Abrir Biblioteca"
+    },
+    library: {
+      title: "Biblioteca",
+      open: "Biblioteca",
+      count: "{shown} de {total} infografías",
+      searchPlaceholder: "Buscar por tema o comando...",
+      allLevels: "Todos los públicos",
+      allStyles: "Todas las estéticas",
+      allLanguages: "Todos los idiomas",
+      newest: "Más recientes",
+      oldest: "Más antiguas",
+      resetFilters: "Limpiar filtros",
+      selectAll: "Seleccionar todo",
+      exportSelected: "Exportar",
+      importFiles: "Importar",
+      importHint: "Importar paquetes .zip o archivos .json exportados",
+      importing: "Importando...",
+      importResult: "{added} importado(s), {duplicates} duplicado(s) omitido(s), {invalid} inválido(s)",
+      importFailed: "No se pudieron importar los archivos",
+      deleteSelected: "Eliminar",
+      deleteConfirm: "¿Eliminar {count} infografía(s) de la biblioteca?",
+      empty: "No se encontraron infografías."
+    },
+    versions: {
+      title: "Árbol de Versiones",
+      chain: "Cadena de ediciones",
+      current: "Actual",
+      fork: "Bifurcar",
+      forkHint: "Hacer actual esta versión y editar a partir de ella",
+      compareSiblings: "Comparar variantes",
+      compareWithCurrent: "Comparar con la actual"
     },
     apiModal: {
       title: "Gestionar Claves API",
       desc: "Configura tus credenciales de Google Gemini.",
       rotationTitle: "Rotación Automática",
-      rotationDesc: "Puedes ingresar múltiples claves (una por línea). Si una clave alcanza el límite de cuota, el sistema probará automáticamente la siguiente.",
+      rotationDesc: "Puedes ingresar múltiples claves (una por línea). Las solicitudes se reparten entre las claves disponibles; las que alcanzan el límite de cuota quedan en espera y el sistema prueba automáticamente la siguiente.",
       label: "Claves API de Gemini",
       placeholder: "Pega tus claves aquí (una por línea)...\nAIzaSy...\nAIzaSy...",
       save: "Guardar Claves",
@@ -284,7 +937,28 @@ export const translations = {
       instructions: "Gemini 2.5 Flash tiene un nivel gratuito generoso. Para obtener tu clave:",
       step1: "Ve a Google AI Studio.",
       step2: "Haz clic en 'Create API Key'.",
-      step3: "Copia la clave y pégala arriba."
+      step3: "Copia la clave y pégala arriba.",
+      statsTitle: "Uso por clave",
+      successes: "Éxitos",
+      failures: "Fallos",
+      lastError: "Último error",
+      healthy: "Disponible",
+      coolingDown: "En espera"
+    },
+    providers: {
+      button: "Proveedores",
+      title: "Proveedores de IA",
+      desc: "Elige qué servicio ejecuta cada etapa del pipeline.",
+      research: "Investigación (texto)",
+      image: "Generación de imagen",
+      edit: "Edición de imagen",
+      openAiTitle: "Endpoint compatible con OpenAI",
+      openAiDesc: "Funciona con la API de OpenAI y servidores propios que exponen las mismas rutas (LocalAI, vLLM, Ollama...). La investigación por este endpoint no usa búsqueda web.",
+      baseUrl: "URL Base",
+      apiKey: "Clave API",
+      textModel: "Modelo de texto",
+      imageModel: "Modelo de imagen",
+      save: "Guardar Proveedores"
     },
     errors: {
       topicRequired: "Por favor, ingresa un tema para visualizar.",
@@ -313,3 +987,33 @@ export const translations = {
     }
   }
 };
+
+
+const levelKeys: Record<ComplexityLevel, keyof typeof translations.pt.options.levels> = {
+  'Elementary': 'Elementary',
+  'High School': 'HighSchool',
+  'College': 'College',
+  'Expert': 'Expert'
+};
+
+const styleKeys: Record<VisualStyle, keyof typeof translations.pt.options.styles> = {
+  'Default': 'Default',
+  'Minimalist': 'Minimalist',
+  'Realistic': 'Realistic',
+  'Cartoon': 'Cartoon',
+  'Vintage': 'Vintage',
+  'Futuristic': 'Futuristic',
+  '3D Render': 'ThreeDRender',
+  'Sketch': 'Sketch'
+};
+
+export const complexityLevels = Object.keys(levelKeys) as ComplexityLevel[];
+export const visualStyles = Object.keys(styleKeys) as VisualStyle[];
+
+export const getLevelLabel = (lang: UiLanguage, level: ComplexityLevel): string => {
+  return translations[lang].options.levels[levelKeys[level]] || level;
+};
+
+export const getStyleLabel = (lang: UiLanguage, style: VisualStyle): string => {
+  return translations[lang].options.styles[styleKeys[style]] || style;
+};
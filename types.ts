@@ -2,12 +2,23 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-export type AspectRatio = '16:9' | '9:16' | '1:1';
+export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:3' | '3:4' | '3:2' | '2:3';
+
+// Output size class of the image model; 1K is the models' default
+export type ImageResolution = '1K' | '2K' | '4K';
+
+export interface ImageFormat {
+  aspectRatio: AspectRatio;
+  resolution: ImageResolution;
+}
 
 export type ComplexityLevel = 'Elementary' | 'High School' | 'College' | 'Expert';
 
 export type VisualStyle = 'Default' | 'Minimalist' | 'Realistic' | 'Cartoon' | 'Vintage' | 'Futuristic' | '3D Render' | 'Sketch';
 
+// Preset corrections of the legibility repair pass
+export type LegibilityFix = 'enlargeText' | 'reduceClutter' | 'fixSpelling';
+
 // Content Generation Language
 export type Language = 'English' | 'Spanish' | 'French' | 'German' | 'Mandarin' | 'Japanese' | 'Hindi' | 'Arabic' | 'Portuguese' | 'Russian';
 
@@ -23,11 +34,73 @@ export interface GeneratedImage {
   style?: VisualStyle;
   language?: Language;
   articleContent?: string; // New field for the explanation text
+  facts?: string[];
+  imagePrompt?: string; // Exact prompt sent to image generation, for reproducibility
+  searchResults?: SearchResultItem[];
+  citations?: Citation[];
+  factChecks?: FactCheck[];
+  referenceImages?: string[]; // Photos or sketches the generation followed, as base64 data URLs
+  aspectRatio?: AspectRatio; // Requested shape; older entries were made in the model's default shape
+  resolution?: ImageResolution;
+  parentId?: string; // Version this one was edited from
+  editInstruction?: string; // Instruction that produced this version from its parent
+  overlay?: OverlayItem[]; // Editable labels and arrows, flattened onto the PNG on download
+}
+
+// Overlay coordinates are fractions of the image size, so they survive any display scale
+export interface OverlayLabel {
+  id: string;
+  type: 'label';
+  x: number; // Center of the text
+  y: number;
+  text: string;
+  fontSize: number; // Fraction of the image width
+  color: string;
+  haloColor: string; // Outline keeping the text readable over busy backgrounds
+  bold: boolean;
+}
+
+export interface OverlayArrow {
+  id: string;
+  type: 'arrow';
+  x: number; // Tail
+  y: number;
+  x2: number; // Head
+  y2: number;
+  color: string;
+  width: number; // Fraction of the image width
 }
 
+export type OverlayItem = OverlayLabel | OverlayArrow;
+
 export interface SearchResultItem {
   title: string;
-  url: string;
+  url: string; // For uploaded documents, the file name
+  document?: boolean; // One of the user's own source documents rather than a web page
+}
+
+// A document supplied by the user; research is then grounded on these instead of web search
+export interface SourceDocument {
+  id: string;
+  name: string; // File name, or the title given to pasted text
+  mimeType: string; // text/plain, text/markdown or application/pdf
+  content: string; // The text itself, or a base64 data URL for PDFs
+}
+
+// Ties a claim to the search results backing it. Facts are matched by text, so
+// editing the fact list simply drops citations that no longer apply.
+export type Citation =
+  | { type: 'fact'; fact: string; sources: number[] } // Indices into searchResults
+  | { type: 'article'; offset: number; sources: number[] }; // Offset in articleContent right after the passage
+
+export type FactVerdict = 'supported' | 'unsupported' | 'contradicted';
+
+// Outcome of the optional fact-check pass, matched to facts by text like citations
+export interface FactCheck {
+  fact: string;
+  verdict: FactVerdict;
+  confidence: number; // 0 to 1
+  note?: string; // Short reason, in the content language
 }
 
 export interface ResearchResult {
@@ -35,6 +108,22 @@ export interface ResearchResult {
   facts: string[];
   searchResults: SearchResultItem[];
   articleContent: string; // New field for the explanation text
+  citations: Citation[];
+  factChecks?: FactCheck[]; // Only when fact-check mode ran
+}
+
+// One rendered candidate, with the exact prompt that produced it
+export interface ImageVariant {
+  prompt: string;
+  data: string; // Base64 data URL
+  format?: ImageFormat; // Requested shape and size
+}
+
+// Research while it is still streaming in
+export interface ResearchDraft {
+  facts: string[]; // Only facts that were fully received
+  articleContent?: string; // May end mid-sentence
+  imagePrompt?: string; // Only set once the whole prompt was received
 }
 
 declare global {
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Citation } from '../types';
+
+// Grounding segments point into the raw JSON answer, not into the parsed fields,
+// so they are matched back to the facts and the article by their text.
+
+export interface PassageSources {
+  text: string;
+  sources: number[]; // Indices into the final, de-duplicated search results
+}
+
+// Pieces shorter than this match too many places to be trusted
+const MIN_PIECE_LENGTH = 12;
+// When a long passage is not found verbatim its tail still pins down where it ends
+const TAIL_LENGTH = 60;
+
+// Private-use characters: they never occur in model output, so they can delimit markers in the Markdown
+export const CITATION_OPEN = '\uE000';
+export const CITATION_CLOSE = '\uE001';
+
+const unescapeJson = (text: string): string => {
+  try {
+    return JSON.parse(`"${text}"`);
+  } catch {
+    return text.replace(/\\n/g, '\n').replace(/\\"/g, '"').replace(/\\\\/g, '\\');
+  }
+};
+
+// A segment may run across JSON punctuation (e.g. two adjacent facts); each piece is matched on its own
+const splitPieces = (segment: string): string[] => {
+  return unescapeJson(segment)
+    .split(/"\s*[,:[\]{}][\s,:[\]{}"]*/)
+    .map(piece => piece.replace(/^[\s"[\]{},:]+|[\s"[\]{},:]+$/g, ''))
+    .filter(piece => piece.length >= MIN_PIECE_LENGTH);
+};
+
+// Markers go after closing emphasis or code, never inside it
+const snapOffset = (content: string, offset: number): number => {
+  let end = offset;
+  while (end < content.length && /[*_~`]/.test(content[end])) end++;
+  return end;
+};
+
+const mergeSources = (target: number[], sources: number[]) => {
+  sources.forEach(source => {
+    if (!target.includes(source)) target.push(source);
+  });
+  target.sort((a, b) => a - b);
+};
+
+/**
+ * Maps grounded passages onto the facts and the article. Passages that cannot be
+ * located are dropped.
+ */
+export const resolveCitations = (passages: PassageSources[], facts: string[], articleContent: string): Citation[] => {
+  const factCitations = new Map<string, number[]>();
+  const articleCitations = new Map<number, number[]>();
+
+  for (const passage of passages) {
+    if (passage.sources.length === 0) continue;
+    for (const piece of splitPieces(passage.text)) {
+      const fact = facts.find(f => f.includes(piece) || piece.includes(f));
+      if (fact) {
+        if (!factCitations.has(fact)) factCitations.set(fact, []);
+        mergeSources(factCitations.get(fact)!, passage.sources);
+        continue;
+      }
+
+      let end = -1;
+      const index = articleContent.indexOf(piece);
+      if (index >= 0) {
+        end = index + piece.length;
+      } else if (piece.length > TAIL_LENGTH) {
+        const tail = piece.slice(-TAIL_LENGTH);
+        const tailIndex = articleContent.indexOf(tail);
+        if (tailIndex >= 0) end = tailIndex + tail.length;
+      }
+      if (end < 0) continue;
+
+      const offset = snapOffset(articleContent, end);
+      if (!articleCitations.has(offset)) articleCitations.set(offset, []);
+      mergeSources(articleCitations.get(offset)!, passage.sources);
+    }
+  }
+
+  return [
+    ...Array.from(factCitations, ([fact, sources]): Citation => ({ type: 'fact', fact, sources })),
+    ...Array.from(articleCitations, ([offset, sources]): Citation => ({ type: 'article', offset, sources }))
+      .sort((a, b) => (a as { offset: number }).offset - (b as { offset: number }).offset)
+  ];
+};
+
+// Bracketed source numbers like [1] or [1, 3], but not Markdown link text
+const INLINE_CITATION = / ?\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+interface InlineMark {
+  offset: number;
+  sources: number[];
+}
+
+// Removes the markers from `text`, keeping where they were. Numbers are 1-based in the text;
+// brackets that do not name one of the sources are left alone.
+const stripInlineCitations = (text: string, sourceCount: number): { text: string; marks: InlineMark[] } => {
+  const marks: InlineMark[] = [];
+  let clean = '';
+  let last = 0;
+  for (const match of text.matchAll(INLINE_CITATION)) {
+    const index = match.index ?? 0;
+    // Glued to a word it is more likely an index, e.g. `items[1]`
+    if (match[0][0] !== ' ' && /\w/.test(text[index - 1] || '')) continue;
+    const sources = match[1].split(',').map(n => Number(n) - 1).filter(source => source >= 0 && source < sourceCount);
+    if (sources.length === 0) continue;
+    clean += text.slice(last, index);
+    marks.push({ offset: clean.length, sources });
+    last = index + match[0].length;
+  }
+  return { text: clean + text.slice(last), marks };
+};
+
+/**
+ * For answers grounded on uploaded documents, where the model cites by writing [n]
+ * itself: returns the facts and article without the markers, plus the citations.
+ */
+export const extractInlineCitations = (facts: string[], articleContent: string, sourceCount: number) => {
+  const citations: Citation[] = [];
+  const cleanFacts = facts.map(fact => {
+    const { text, marks } = stripInlineCitations(fact, sourceCount);
+    const sources: number[] = [];
+    marks.forEach(mark => mergeSources(sources, mark.sources));
+    if (sources.length > 0) citations.push({ type: 'fact', fact: text.trim(), sources });
+    return text.trim();
+  });
+
+  const article = stripInlineCitations(articleContent, sourceCount);
+  const byOffset = new Map<number, number[]>();
+  article.marks.forEach(mark => {
+    if (!byOffset.has(mark.offset)) byOffset.set(mark.offset, []);
+    mergeSources(byOffset.get(mark.offset)!, mark.sources);
+  });
+  byOffset.forEach((sources, offset) => citations.push({ type: 'article', offset, sources }));
+
+  return { facts: cleanFacts, articleContent: article.text, citations };
+};
+
+const marker = (sources: number[]) => `${CITATION_OPEN}${sources.join(',')}${CITATION_CLOSE}`;
+
+/**
+ * Inserts citation markers into the article Markdown, for parseInline to pick up.
+ */
+export const injectCitationMarkers = (content: string, citations: Citation[]): string => {
+  const article = citations
+    .filter((citation): citation is Citation & { type: 'article' } => citation.type === 'article' && citation.offset <= content.length)
+    .sort((a, b) => b.offset - a.offset);
+  // Inserted back to front so earlier offsets stay valid
+  return article.reduce((text, citation) => text.slice(0, citation.offset) + marker(citation.sources) + text.slice(citation.offset), content);
+};
+
+export const getFactSources = (citations: Citation[], fact: string): number[] => {
+  const citation = citations.find(c => c.type === 'fact' && c.fact === fact);
+  return citation ? citation.sources : [];
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface InlineData {
+  mimeType: string;
+  data: string; // Raw base64, without the data URL prefix
+}
+
+// Splits a base64 data URL into its MIME type and payload
+export const parseDataUrl = (dataUrl: string): InlineData => {
+  const match = dataUrl.match(/^data:([\w.+-]+\/[\w.+-]+);base64,/);
+  if (!match) {
+    return { mimeType: 'image/png', data: dataUrl };
+  }
+  return { mimeType: match[1], data: dataUrl.slice(match[0].length) };
+};
+
+export const toDataUrl = (data: string, mimeType: string = 'image/png'): string => {
+  return `data:${mimeType};base64,${data}`;
+};
+
+export const dataUrlToBlob = (dataUrl: string): Blob => {
+  const { mimeType, data } = parseDataUrl(dataUrl);
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
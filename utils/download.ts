@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Triggers a browser download for an in-memory file
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Filesystem-friendly date stamp, e.g. 2025-03-14
+export const dateStamp = (timestamp: number = Date.now()): string => {
+  return new Date(timestamp).toISOString().slice(0, 10);
+};
+
+// Short filename-safe version of a title, e.g. "Black Holes!" -> "black-holes"
+export const slugify = (text: string): string => {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || 'infographic';
+};
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Type guards for untrusted data: model responses and imported files
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isOneOf = <T extends string>(list: readonly T[], value: unknown): value is T => list.includes(value as T);
@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Canvas helpers shared by the local image processing features
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to load image"));
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas is not available");
+  return [canvas, ctx];
+};
+
+/**
+ * Shrinks an image so its longest side is at most `maxSize`, re-encoding it as JPEG.
+ * Images already small enough are returned unchanged.
+ */
+export const downscaleImage = async (dataUrl: string, maxSize: number): Promise<string> => {
+  const img = await loadImage(dataUrl);
+  const scale = maxSize / Math.max(img.naturalWidth, img.naturalHeight);
+  if (scale >= 1) return dataUrl;
+  const [canvas, ctx] = createCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+  // JPEG has no alpha, so transparent sketches get a white background instead of black
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.9);
+};
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { AspectRatio, ImageFormat, ImageResolution } from '../types';
+
+// Shapes offered in the controls bar, from widest to tallest
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '3:2', '4:3', '1:1', '3:4', '2:3', '9:16'];
+
+export const IMAGE_RESOLUTIONS: ImageResolution[] = ['1K', '2K', '4K'];
+
+export type FormatPreset = 'poster' | 'story' | 'slide';
+
+// Presets stay at 1K: larger sizes need a paid model, which the user has to pick on purpose
+export const FORMAT_PRESETS: Record<FormatPreset, ImageFormat> = {
+  poster: { aspectRatio: '2:3', resolution: '1K' },
+  story: { aspectRatio: '9:16', resolution: '1K' },
+  slide: { aspectRatio: '16:9', resolution: '1K' }
+};
+
+// Sizes the free Gemini image model cannot render
+export const isPaidResolution = (resolution: ImageResolution): boolean => resolution !== '1K';
+
+export const DEFAULT_IMAGE_FORMAT: ImageFormat = { aspectRatio: '16:9', resolution: '1K' };
+
+// Width divided by height
+export const aspectRatioValue = (ratio: AspectRatio): number => {
+  const [width, height] = ratio.split(':').map(Number);
+  return width / height;
+};
+
+export const orientationOf = (ratio: AspectRatio): 'landscape' | 'portrait' | 'square' => {
+  const value = aspectRatioValue(ratio);
+  return value > 1 ? 'landscape' : value < 1 ? 'portrait' : 'square';
+};
+
+// Short label such as "2:3 · 4K" for metadata lines; null for images made before formats were recorded
+export const describeFormat = (format: { aspectRatio?: AspectRatio; resolution?: ImageResolution }): string | null => {
+  const parts = [format.aspectRatio, format.resolution].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+// Pixel size of the given shape whose longest side is `longSide`
+export const sizeForRatio = (ratio: AspectRatio, longSide: number): { width: number; height: number } => {
+  const value = aspectRatioValue(ratio);
+  return value >= 1
+    ? { width: longSide, height: Math.round(longSide / value) }
+    : { width: Math.round(longSide * value), height: longSide };
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createCanvas, loadImage } from './image';
+
+// Region-targeted editing: a mask is a transparent PNG the size of the image,
+// painted wherever the user wants the edit to apply.
+
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Context kept around the marked area so the model can see what it is editing
+const CONTEXT_PADDING = 0.15;
+const MIN_PADDING_PX = 32;
+// Soft edge where the edited crop blends into the original
+const FEATHER_PX = 6;
+
+/**
+ * Bounding box of the painted pixels, padded for context and clamped to the image.
+ * Resolves to null when nothing was painted.
+ */
+export const getMaskRegion = async (mask: string): Promise<Region | null> => {
+  const img = await loadImage(mask);
+  const [, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  const { data, width, height } = ctx.getImageData(0, 0, img.naturalWidth, img.naturalHeight);
+
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+
+  const padX = Math.max(MIN_PADDING_PX, (maxX - minX) * CONTEXT_PADDING);
+  const padY = Math.max(MIN_PADDING_PX, (maxY - minY) * CONTEXT_PADDING);
+  const x = Math.max(0, Math.floor(minX - padX));
+  const y = Math.max(0, Math.floor(minY - padY));
+  return {
+    x,
+    y,
+    width: Math.min(width, Math.ceil(maxX + padX)) - x,
+    height: Math.min(height, Math.ceil(maxY + padY)) - y
+  };
+};
+
+export const cropImage = async (image: string, region: Region): Promise<string> => {
+  const img = await loadImage(image);
+  const [canvas, ctx] = createCanvas(region.width, region.height);
+  ctx.drawImage(img, region.x, region.y, region.width, region.height, 0, 0, region.width, region.height);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Pastes an edited crop back over the original, only where the mask is painted.
+ * The crop is scaled back to its region, since models may answer at another size.
+ */
+export const compositeRegion = async (image: string, editedCrop: string, region: Region, mask: string): Promise<string> => {
+  const [original, edited, maskImg] = await Promise.all([loadImage(image), loadImage(editedCrop), loadImage(mask)]);
+  const [canvas, ctx] = createCanvas(original.naturalWidth, original.naturalHeight);
+  ctx.drawImage(original, 0, 0);
+
+  // The edited pixels go on their own layer, cut out by the feathered mask
+  const [layer, layerCtx] = createCanvas(canvas.width, canvas.height);
+  layerCtx.filter = `blur(${FEATHER_PX}px)`;
+  layerCtx.drawImage(maskImg, 0, 0, canvas.width, canvas.height);
+  layerCtx.filter = 'none';
+  layerCtx.globalCompositeOperation = 'source-in';
+  layerCtx.drawImage(edited, region.x, region.y, region.width, region.height);
+
+  ctx.drawImage(layer, 0, 0);
+  return canvas.toDataURL('image/png');
+};
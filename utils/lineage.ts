@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage } from '../types';
+
+// Helpers to navigate the edit lineage formed by GeneratedImage.parentId.
+// A version whose parent is no longer in the library is treated as a root.
+
+export const getParent = (images: GeneratedImage[], image: GeneratedImage): GeneratedImage | undefined => {
+  if (!image.parentId) return undefined;
+  return images.find(img => img.id === image.parentId);
+};
+
+export const getChildren = (images: GeneratedImage[], id: string): GeneratedImage[] => {
+  return images
+    .filter(img => img.parentId === id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+};
+
+/**
+ * Returns the chain of versions from the root down to (and including) `image`.
+ */
+export const getLineage = (images: GeneratedImage[], image: GeneratedImage): GeneratedImage[] => {
+  const chain: GeneratedImage[] = [image];
+  const seen = new Set([image.id]);
+  let parent = getParent(images, image);
+
+  // Guard against cycles in imported or hand-edited data
+  while (parent && !seen.has(parent.id)) {
+    chain.unshift(parent);
+    seen.add(parent.id);
+    parent = getParent(images, parent);
+  }
+  return chain;
+};
+
+export const getRoot = (images: GeneratedImage[], image: GeneratedImage): GeneratedImage => {
+  return getLineage(images, image)[0];
+};
+
+// Other versions edited from the same parent
+export const getSiblings = (images: GeneratedImage[], image: GeneratedImage): GeneratedImage[] => {
+  if (!image.parentId) return [];
+  return getChildren(images, image.parentId).filter(img => img.id !== image.id);
+};
+
+/**
+ * Counts every version that descends from `rootId`, the root included.
+ */
+export const countFamily = (images: GeneratedImage[], rootId: string): number => {
+  const seen = new Set<string>();
+  const queue = [rootId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    queue.push(...getChildren(images, id).map(child => child.id));
+  }
+  return seen.size;
+};
@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Markdown reader for the articles the research step produces. It builds a block
+// structure that each target renders on its own (React view, PDF, slides, HTML),
+// so raw HTML in the source is never interpreted: it simply shows up as text.
+
+export interface InlineSpan {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  strike?: boolean;
+  href?: string;
+  citations?: number[]; // Source indices of a citation marker; such spans carry no text
+}
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  spans: InlineSpan[]; // First paragraph of the item
+  children: MarkdownBlock[]; // Nested lists and further paragraphs
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; spans: InlineSpan[]; id: string }
+  | { type: 'paragraph'; spans: InlineSpan[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'code'; language: string; text: string }
+  | { type: 'blockquote'; blocks: MarkdownBlock[] }
+  | { type: 'table'; align: TableAlign[]; header: InlineSpan[][]; rows: InlineSpan[][][] }
+  | { type: 'rule' };
+
+export interface TocEntry {
+  id: string;
+  level: number;
+  text: string;
+}
+
+// Tried in this order at each position: citation markers, escapes, images, links, autolinks, bare URLs, code, bold, strikethrough, italic
+const INLINE_PATTERN = new RegExp([
+  /\uE000([\d,]+)\uE001/.source,
+  /\\([!-/:-@[-`{-~])/.source,
+  /!\[([^\]]*)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,
+  /\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/.source,
+  /<((?:https?:\/\/|mailto:)[^>\s]+)>/.source,
+  /(https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"*_])/.source,
+  /`([^`]+)`/.source,
+  /\*\*(.+?)\*\*|__(.+?)__/.source,
+  /~~(.+?)~~/.source,
+  /\*([^*\s][^*]*?)\*|\b_([^_\s][^_]*?)_\b/.source
+].join('|'), 'g');
+
+// Only web, mail and in-page links survive, so generated text cannot smuggle in javascript: URLs
+export const safeHref = (href: string): string | null => (/^(https?:|mailto:|#)/i.test(href) ? href : null);
+
+export const parseInline = (text: string): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  const plain = (value: string): InlineSpan => ({ text: value, bold: false, italic: false, code: false });
+  const linked = (value: string, href: string) => parseInline(value).map(span => ({ ...span, href: safeHref(href) || undefined }));
+  let last = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) spans.push(plain(text.slice(last, index)));
+    const [, cited, escaped, imageAlt, imageSrc, linkText, href, autolink, bareUrl, code, bold1, bold2, strike, italic1, italic2] = match;
+
+    if (cited !== undefined) {
+      spans.push({ ...plain(''), citations: cited.split(',').filter(Boolean).map(Number) });
+    } else if (escaped !== undefined) {
+      spans.push(plain(escaped));
+    } else if (imageSrc !== undefined) {
+      // Remote images are not loaded; they become a link labelled with their alt text
+      spans.push(...linked(imageAlt || imageSrc, imageSrc));
+    } else if (linkText !== undefined) {
+      spans.push(...linked(linkText, href));
+    } else if (autolink !== undefined || bareUrl !== undefined) {
+      const url = autolink ?? bareUrl;
+      spans.push({ ...plain(url), href: safeHref(url) || undefined });
+    } else if (code !== undefined) {
+      spans.push({ ...plain(code), code: true });
+    } else if (bold1 !== undefined || bold2 !== undefined) {
+      spans.push(...parseInline(bold1 ?? bold2).map(span => ({ ...span, bold: true })));
+    } else if (strike !== undefined) {
+      spans.push(...parseInline(strike).map(span => ({ ...span, strike: true })));
+    } else {
+      spans.push(...parseInline(italic1 ?? italic2).map(span => ({ ...span, italic: true })));
+    }
+    last = index + match[0].length;
+  }
+
+  if (last < text.length) spans.push(plain(text.slice(last)));
+  return spans;
+};
+
+export const spansToText = (spans: InlineSpan[]): string => spans.map(span => span.text).join('');
+
+const FENCE = /^ {0,3}(```+|~~~+)\s*([\w+-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(\s+)(.*)$/;
+const TABLE_DELIMITER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+const isBlank = (line: string) => line.trim() === '';
+
+const splitRow = (line: string): string[] => {
+  const cells = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/);
+  return cells.map(cell => cell.trim().replace(/\\\|/g, '|'));
+};
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER.test(lines[i + 1]) && lines[i + 1].includes('-');
+
+// Lines that end a paragraph without a blank line in between
+const startsBlock = (lines: string[], i: number) =>
+  FENCE.test(lines[i]) || HEADING.test(lines[i]) || RULE.test(lines[i]) || QUOTE.test(lines[i]) || LIST_ITEM.test(lines[i]) || isTableStart(lines, i);
+
+const parseBlocks = (lines: string[]): MarkdownBlock[] => {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let i = 0;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', spans: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      flushParagraph();
+      i++;
+      continue;
+    }
+    if (paragraph.length > 0 && !startsBlock(lines, i)) {
+      paragraph.push(line.trim());
+      i++;
+      continue;
+    }
+    flushParagraph();
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      // An unclosed fence (e.g. while the article is still streaming) runs to the end
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) code.push(lines[i++]);
+      i++;
+      blocks.push({ type: 'code', language: fence[2], text: code.join('\n') });
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, spans: parseInline(heading[2]), id: '' });
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE.test(lines[i]) || !startsBlock(lines, i))) {
+        quoted.push(lines[i++].replace(QUOTE, ''));
+      }
+      blocks.push({ type: 'blockquote', blocks: parseBlocks(quoted) });
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map((cell): TableAlign =>
+        cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : cell.startsWith(':') ? 'left' : null);
+      i += 2;
+      const rows: InlineSpan[][][] = [];
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i++]);
+        rows.push(header.map((_, col) => parseInline(cells[col] || '')));
+      }
+      blocks.push({ type: 'table', align: header.map((_, col) => align[col] ?? null), header: header.map(cell => parseInline(cell)), rows });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      i = parseList(lines, i, blocks);
+      continue;
+    }
+
+    paragraph.push(line.trim());
+    i++;
+  }
+
+  flushParagraph();
+  return blocks;
+};
+
+// Reads one list starting at `start`; returns the index of the first line after it
+const parseList = (lines: string[], start: number, blocks: MarkdownBlock[]): number => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const list: MarkdownBlock & { type: 'list' } = { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items: [] };
+  let i = start;
+
+  while (i < lines.length) {
+    const marker = lines[i].match(LIST_ITEM);
+    if (!marker || marker[1].length !== baseIndent || /\d/.test(marker[2]) !== ordered) break;
+
+    // Item content is dedented to where the text after the marker starts
+    const contentIndent = baseIndent + marker[2].length + Math.min(marker[3].length, 4);
+    const body = [marker[4]];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        const next = lines.slice(i + 1).findIndex(l => !isBlank(l));
+        if (next < 0 || indentOf(lines[i + 1 + next]) <= baseIndent) break;
+        body.push('');
+        i++;
+      } else if (indentOf(line) > baseIndent) {
+        body.push(line.slice(Math.min(indentOf(line), contentIndent)));
+        i++;
+      } else if (!startsBlock(lines, i) && body.length > 0 && !isBlank(body[body.length - 1])) {
+        body.push(line.trim()); // Lazy continuation of the item's paragraph
+        i++;
+      } else {
+        break;
+      }
+    }
+
+    const content = parseBlocks(body);
+    const lead = content[0]?.type === 'paragraph' ? content.shift() as { type: 'paragraph'; spans: InlineSpan[] } : null;
+    list.items.push({ spans: lead ? lead.spans : [], children: content });
+  }
+
+  blocks.push(list);
+  return i;
+};
+
+// Anchor ids keep letters of any script; the prefix keeps them clear of the app's own ids
+const headingSlug = (text: string): string => {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/[\s-]+/g, '-');
+  return `article-${slug || 'section'}`;
+};
+
+const assignHeadingIds = (blocks: MarkdownBlock[], used: Map<string, number>) => {
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      const base = headingSlug(spansToText(block.spans));
+      const count = used.get(base) || 0;
+      used.set(base, count + 1);
+      block.id = count === 0 ? base : `${base}-${count + 1}`;
+    } else if (block.type === 'blockquote') {
+      assignHeadingIds(block.blocks, used);
+    }
+  }
+};
+
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const blocks = parseBlocks(lines);
+  assignHeadingIds(blocks, new Map());
+  return blocks;
+};
+
+/**
+ * Headings for a table of contents, down to level 3.
+ */
+export const getTableOfContents = (blocks: MarkdownBlock[]): TocEntry[] => {
+  return blocks
+    .filter((block): block is MarkdownBlock & { type: 'heading' } => block.type === 'heading' && block.level <= 3)
+    .map(block => ({ id: block.id, level: block.level, text: spansToText(block.spans) }));
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+export const spansToHtml = (spans: InlineSpan[]): string => spans.map(span => {
+  let html = escapeHtml(span.text);
+  if (span.code) html = `<code>${html}</code>`;
+  if (span.strike) html = `<del>${html}</del>`;
+  if (span.italic) html = `<em>${html}</em>`;
+  if (span.bold) html = `<strong>${html}</strong>`;
+  const href = span.href && safeHref(span.href);
+  if (href) html = `<a href="${escapeHtml(href)}"${href.startsWith('#') ? '' : ' target="_blank" rel="noopener noreferrer"'}>${html}</a>`;
+  return html;
+}).join('');
+
+const blocksToHtml = (blocks: MarkdownBlock[]): string => blocks.map(block => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level} id="${escapeHtml(block.id)}">${spansToHtml(block.spans)}</h${block.level}>`;
+    case 'paragraph':
+      return `<p>${spansToHtml(block.spans)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : '';
+      const items = block.items.map(item => `<li>${spansToHtml(item.spans)}${blocksToHtml(item.children)}</li>`).join('');
+      return `<${tag}${start}>${items}</${tag}>`;
+    }
+    case 'code':
+      return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'blockquote':
+      return `<blockquote>${blocksToHtml(block.blocks)}</blockquote>`;
+    case 'table': {
+      const cell = (tag: string, spans: InlineSpan[], col: number) =>
+        `<${tag}${block.align[col] ? ` style="text-align:${block.align[col]}"` : ''}>${spansToHtml(spans)}</${tag}>`;
+      const head = `<tr>${block.header.map((spans, col) => cell('th', spans, col)).join('')}</tr>`;
+      const body = block.rows.map(row => `<tr>${row.map((spans, col) => cell('td', spans, col)).join('')}</tr>`).join('');
+      return `<table><thead>${head}</thead><tbody>${body}</tbody></table>`;
+    }
+    case 'rule':
+      return '<hr>';
+  }
+}).join('\n');
+
+/**
+ * Renders Markdown to escaped HTML. Raw HTML in the source is shown as text.
+ */
+export const markdownToHtml = (markdown: string): string => blocksToHtml(parseMarkdown(markdown));
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GeneratedImage, OverlayArrow, OverlayItem, OverlayLabel } from '../types';
+import { createCanvas, loadImage } from './image';
+import { parseDataUrl } from './dataUrl';
+
+// Geometry and rasterization of the label overlay. The SVG editor and the canvas
+// flattening share these helpers so the downloaded PNG matches what was on screen.
+
+export const OVERLAY_FONT = 'Inter, system-ui, sans-serif';
+
+export const createLabel = (text: string): OverlayLabel => ({
+  id: `label-${Date.now()}`,
+  type: 'label',
+  x: 0.5,
+  y: 0.5,
+  text,
+  fontSize: 0.03,
+  color: '#0f172a',
+  haloColor: '#ffffff',
+  bold: true
+});
+
+export const createArrow = (): OverlayArrow => ({
+  id: `arrow-${Date.now()}`,
+  type: 'arrow',
+  x: 0.4,
+  y: 0.4,
+  x2: 0.55,
+  y2: 0.55,
+  color: '#dc2626',
+  width: 0.005
+});
+
+// Halo thickness relative to the font size
+const HALO_RATIO = 0.18;
+
+export const haloWidth = (label: OverlayLabel, imageWidth: number) => label.fontSize * imageWidth * HALO_RATIO;
+
+/**
+ * Triangle of an arrow head in pixels: tip, then the two back corners.
+ */
+export const arrowHeadPoints = (arrow: OverlayArrow, width: number, height: number): [number, number][] => {
+  const tipX = arrow.x2 * width;
+  const tipY = arrow.y2 * height;
+  const angle = Math.atan2(tipY - arrow.y * height, tipX - arrow.x * width);
+  const size = Math.max(arrow.width * width * 4, 10);
+  const spread = Math.PI / 7;
+  return [
+    [tipX, tipY],
+    [tipX - size * Math.cos(angle - spread), tipY - size * Math.sin(angle - spread)],
+    [tipX - size * Math.cos(angle + spread), tipY - size * Math.sin(angle + spread)]
+  ];
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, label: OverlayLabel, width: number, height: number) => {
+  ctx.font = `${label.bold ? 'bold ' : ''}${label.fontSize * width}px ${OVERLAY_FONT}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = label.haloColor;
+  ctx.lineWidth = haloWidth(label, width);
+  ctx.strokeText(label.text, label.x * width, label.y * height);
+  ctx.fillStyle = label.color;
+  ctx.fillText(label.text, label.x * width, label.y * height);
+};
+
+const drawArrow = (ctx: CanvasRenderingContext2D, arrow: OverlayArrow, width: number, height: number) => {
+  const [tip, left, right] = arrowHeadPoints(arrow, width, height);
+  ctx.strokeStyle = arrow.color;
+  ctx.fillStyle = arrow.color;
+  ctx.lineWidth = arrow.width * width;
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(arrow.x * width, arrow.y * height);
+  ctx.lineTo((left[0] + right[0]) / 2, (left[1] + right[1]) / 2);
+  ctx.stroke();
+  ctx.beginPath();
+  ctx.moveTo(...tip);
+  ctx.lineTo(...left);
+  ctx.lineTo(...right);
+  ctx.closePath();
+  ctx.fill();
+};
+
+/**
+ * Renders the overlay into the raster image and returns a PNG data URL.
+ */
+export const flattenOverlay = async (image: string, items: OverlayItem[]): Promise<string> => {
+  const img = await loadImage(image);
+  const [canvas, ctx] = createCanvas(img.naturalWidth, img.naturalHeight);
+  ctx.drawImage(img, 0, 0);
+  items.forEach(item => {
+    if (item.type === 'label') drawLabel(ctx, item, canvas.width, canvas.height);
+    else drawArrow(ctx, item, canvas.width, canvas.height);
+  });
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Image data for file exports: the overlay burned in, and only PNG or JPEG.
+ */
+export const exportImageData = async (image: GeneratedImage): Promise<string> => {
+  const overlay = image.overlay || [];
+  const { mimeType } = parseDataUrl(image.data);
+  if (overlay.length === 0 && /^image\/(png|jpeg)$/.test(mimeType)) return image.data;
+  return flattenOverlay(image.data, overlay);
+};
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { SearchResultItem, SourceDocument } from '../types';
+import { blobToDataUrl } from './dataUrl';
+
+// Inline request data is limited, so large files are refused up front
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+export const SOURCE_DOCUMENT_ACCEPT = '.txt,.md,.markdown,.pdf,text/plain,text/markdown,application/pdf';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  pdf: 'application/pdf'
+};
+
+export type SourceDocumentResult =
+  | { document: SourceDocument }
+  | { error: 'unsupported' | 'tooLarge' };
+
+const newDocumentId = () => `doc-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const readSourceDocument = async (file: File): Promise<SourceDocumentResult> => {
+  const extension = file.name.split('.').pop()!.toLowerCase();
+  const mimeType = MIME_BY_EXTENSION[extension] || (Object.values(MIME_BY_EXTENSION).includes(file.type) ? file.type : null);
+  if (!mimeType) return { error: 'unsupported' };
+  if (file.size > MAX_DOCUMENT_BYTES) return { error: 'tooLarge' };
+
+  const content = mimeType === 'application/pdf' ? await blobToDataUrl(new Blob([file], { type: mimeType })) : await file.text();
+  return { document: { id: newDocumentId(), name: file.name, mimeType, content } };
+};
+
+export const createPastedDocument = (name: string, text: string): SourceDocument => ({
+  id: newDocumentId(),
+  name,
+  mimeType: 'text/plain',
+  content: text
+});
+
+// Approximate size for display: characters of text, or bytes of a PDF
+export const documentSize = (document: SourceDocument): number => {
+  if (document.mimeType !== 'application/pdf') return document.content.length;
+  const base64 = document.content.slice(document.content.indexOf(',') + 1);
+  return Math.floor(base64.length * 3 / 4);
+};
+
+// Where a source can be opened: web results always, documents only when named after a URL
+export const sourceHref = (source: SearchResultItem): string | null => (/^https?:\/\//i.test(source.url) ? source.url : null);